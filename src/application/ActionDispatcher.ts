@@ -0,0 +1,63 @@
+// Action dispatcher - single entry point for player input (keyboard, replays)
+
+import { GameActions } from '@domain/GameActions';
+import { InputAction } from '@domain/types';
+
+export type ActionListener = (action: InputAction, isRepeat: boolean) => void;
+
+export class ActionDispatcher {
+  private listeners: Set<ActionListener>;
+
+  constructor(
+    private gameActions: GameActions,
+    private onPauseToggle: () => void
+  ) {
+    this.listeners = new Set();
+  }
+
+  /**
+   * Notify listeners and execute an action (isRepeat marks DAS/ARR auto-repeats).
+   * Returns false when a move or soft drop was blocked.
+   */
+  public dispatch(action: InputAction, isRepeat: boolean = false): boolean {
+    // Listeners run first so an action that ends the game is still seen
+    this.listeners.forEach((listener) => listener(action, isRepeat));
+
+    switch (action) {
+      case InputAction.MOVE_LEFT:
+        return this.gameActions.moveLeft();
+      case InputAction.MOVE_RIGHT:
+        return this.gameActions.moveRight();
+      case InputAction.SOFT_DROP:
+        return this.gameActions.softDrop();
+      case InputAction.HARD_DROP:
+        this.gameActions.hardDrop();
+        break;
+      case InputAction.ROTATE_CW:
+        this.gameActions.rotate('clockwise');
+        break;
+      case InputAction.ROTATE_CCW:
+        this.gameActions.rotate('counterclockwise');
+        break;
+      case InputAction.HOLD:
+        this.gameActions.hold();
+        break;
+      case InputAction.PAUSE:
+        this.onPauseToggle();
+        break;
+    }
+    return true;
+  }
+
+  /**
+   * Subscribe to dispatched actions
+   */
+  public subscribe(listener: ActionListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,72 @@
+// Audio settings - master, sound effect and music volume plus mute
+
+import { AudioEngine, AudioChannel } from '@infrastructure/AudioEngine';
+import {
+  DEFAULT_MASTER_VOLUME,
+  DEFAULT_SFX_VOLUME,
+  DEFAULT_MUSIC_VOLUME,
+} from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+
+const AUDIO_PREFERENCE = 'audio';
+
+/**
+ * Player-tunable volume levels (0-1)
+ */
+export interface AudioSettings {
+  masterVolume: number;
+  sfxVolume: number;
+  musicVolume: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: DEFAULT_MASTER_VOLUME,
+  sfxVolume: DEFAULT_SFX_VOLUME,
+  musicVolume: DEFAULT_MUSIC_VOLUME,
+  muted: false,
+};
+
+/**
+ * Clamp a volume into 0-1 (anything that isn't a number becomes the fallback)
+ */
+function clampVolume(volume: unknown, fallback: number): number {
+  return typeof volume === 'number' && Number.isFinite(volume)
+    ? Math.min(Math.max(volume, 0), 1)
+    : fallback;
+}
+
+/**
+ * Send the settings to the audio engine
+ */
+export function applyAudioSettings(engine: AudioEngine, settings: AudioSettings): void {
+  engine.setMasterVolume(settings.masterVolume);
+  engine.setChannelVolume(AudioChannel.SFX, settings.sfxVolume);
+  engine.setChannelVolume(AudioChannel.MUSIC, settings.musicVolume);
+  engine.setMuted(settings.muted);
+}
+
+/**
+ * Load the player's audio settings, falling back to the defaults for anything missing or invalid
+ */
+export function loadAudioSettings(preferences: Preferences): AudioSettings {
+  const stored = preferences.load(AUDIO_PREFERENCE);
+  if (typeof stored !== 'object' || stored === null) {
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+
+  const raw = stored as Record<string, unknown>;
+  return {
+    masterVolume: clampVolume(raw.masterVolume, DEFAULT_AUDIO_SETTINGS.masterVolume),
+    sfxVolume: clampVolume(raw.sfxVolume, DEFAULT_AUDIO_SETTINGS.sfxVolume),
+    musicVolume: clampVolume(raw.musicVolume, DEFAULT_AUDIO_SETTINGS.musicVolume),
+    muted: typeof raw.muted === 'boolean' ? raw.muted : DEFAULT_AUDIO_SETTINGS.muted,
+  };
+}
+
+/**
+ * Persist the player's audio settings
+ */
+export function saveAudioSettings(preferences: Preferences, settings: AudioSettings): void {
+  preferences.save(AUDIO_PREFERENCE, settings);
+}
@@ -0,0 +1,93 @@
+// Autoplay - lets the bot play the live game through the action dispatcher
+
+import { Store } from '@domain/Store';
+import { GameState, GameStatus, InputAction } from '@domain/types';
+import { BotWeights, findBestMove } from '@domain/Bot';
+import { BOT_WEIGHTS, DEFAULT_AUTOPLAY_SPEED, FRAME_TIME } from '@infrastructure/constants';
+import { ActionDispatcher } from './ActionDispatcher';
+import { GameLoop } from './GameLoop';
+
+export class Autoplay {
+  private enabled: boolean = false;
+  private piecesPerSecond: number = DEFAULT_AUTOPLAY_SPEED;
+  private waitTime: number = 0;
+  private removeTickCallback: (() => void) | null = null;
+
+  constructor(
+    private store: Store<GameState>,
+    private dispatcher: ActionDispatcher,
+    private gameLoop: GameLoop,
+    private weights: BotWeights = BOT_WEIGHTS
+  ) {}
+
+  /**
+   * Hand control to the bot (runs before every tick, so its games record and replay like any other)
+   */
+  public enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+    this.waitTime = 0;
+    this.removeTickCallback = this.gameLoop.onBeforeTick(() => this.update());
+  }
+
+  /**
+   * Take control back from the bot
+   */
+  public disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+    if (this.removeTickCallback) {
+      this.removeTickCallback();
+      this.removeTickCallback = null;
+    }
+  }
+
+  /**
+   * Check whether the bot is playing
+   */
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Set how many pieces the bot places per second
+   */
+  public setSpeed(piecesPerSecond: number): void {
+    if (piecesPerSecond <= 0) {
+      throw new Error(`Autoplay speed must be positive, got ${piecesPerSecond}`);
+    }
+    this.piecesPerSecond = piecesPerSecond;
+  }
+
+  /**
+   * Get the pieces per second rate
+   */
+  public getSpeed(): number {
+    return this.piecesPerSecond;
+  }
+
+  /**
+   * Place one piece whenever the per-piece wait has elapsed
+   */
+  private update(): void {
+    const state = this.store.getState();
+    if (state.status !== GameStatus.PLAYING || !state.currentPiece) return;
+
+    this.waitTime += FRAME_TIME;
+    if (this.waitTime < 1000 / this.piecesPerSecond) return;
+    this.waitTime = 0;
+
+    const move = findBestMove(state, this.weights);
+    if (!move) {
+      this.dispatcher.dispatch(InputAction.HARD_DROP);
+      return;
+    }
+
+    if (move.useHold) {
+      this.dispatcher.dispatch(InputAction.HOLD);
+    }
+    for (const action of move.placement.path) {
+      this.dispatcher.dispatch(action);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+// Background music - runs the sequencer alongside a game, speeding up with level and danger
+
+import { Store } from '@domain/Store';
+import { EventBus } from '@domain/EventBus';
+import { GameState, GameStatus, GameEvent, EventHandler } from '@domain/types';
+import { AudioEngine, AudioChannel } from '@infrastructure/AudioEngine';
+import { Clock, BrowserClock } from '@infrastructure/Clock';
+import {
+  MUSIC_LOOKAHEAD,
+  MUSIC_TEMPO_PER_LEVEL,
+  MUSIC_MAX_LEVEL_TEMPO,
+  MUSIC_DANGER_TEMPO,
+  MUSIC_DANGER_ROWS,
+} from '@infrastructure/constants';
+import { MusicSequencer } from './MusicSequencer';
+import { MusicTrack, KOROBEINIKI } from './MusicScore';
+
+/**
+ * Tempo multiplier for a level, with the danger speed-up when the stack is near the top
+ */
+export function getMusicTempo(level: number, inDanger: boolean): number {
+  const levelTempo = Math.min(1 + (level - 1) * MUSIC_TEMPO_PER_LEVEL, MUSIC_MAX_LEVEL_TEMPO);
+  return inDanger ? levelTempo * MUSIC_DANGER_TEMPO : levelTempo;
+}
+
+export class BackgroundMusic {
+  public readonly sequencer: MusicSequencer;
+  private frameId: number | null = null;
+  private level: number = 1;
+  private inDanger: boolean = false;
+  private activeStore: Store<GameState> | null = null; // the game the music is following
+
+  constructor(
+    private engine: AudioEngine,
+    private clock: Clock = new BrowserClock(),
+    track: MusicTrack = KOROBEINIKI
+  ) {
+    this.sequencer = new MusicSequencer(track);
+  }
+
+  /**
+   * Follow a game's events (returns a function that stops listening). Several games
+   * can be attached - the music follows whichever started last.
+   */
+  public attach(store: Store<GameState>, eventBus: EventBus): () => void {
+    const isActive = (): boolean => this.activeStore === store;
+
+    const handlers: [GameEvent, EventHandler<never>][] = [
+      [
+        GameEvent.GAME_START,
+        () => {
+          this.activeStore = store;
+          this.level = 1;
+          this.inDanger = false;
+          this.updateTempo();
+          this.sequencer.start(this.engine.now());
+          this.startFrames();
+        },
+      ],
+      [
+        GameEvent.LEVEL_UP,
+        (level: number) => {
+          if (!isActive()) return;
+          this.level = level;
+          this.updateTempo();
+        },
+      ],
+      [
+        GameEvent.PIECE_SPAWN,
+        () => {
+          if (!isActive()) return;
+          const { board } = store.getState();
+          this.inDanger = board.getStackHeight() > board.height - MUSIC_DANGER_ROWS;
+          this.updateTempo();
+        },
+      ],
+      [
+        GameEvent.GAME_PAUSE,
+        () => {
+          if (isActive()) this.sequencer.pause();
+        },
+      ],
+      [
+        GameEvent.GAME_RESUME,
+        () => {
+          if (isActive()) this.sequencer.resume(this.engine.now());
+        },
+      ],
+      [
+        GameEvent.GAME_OVER,
+        () => {
+          if (isActive()) this.stop();
+        },
+      ],
+      [
+        GameEvent.GAME_FINISH,
+        () => {
+          if (isActive()) this.stop();
+        },
+      ],
+    ];
+
+    for (const [event, handler] of handlers) {
+      eventBus.on(event, handler);
+    }
+
+    // Quitting to the menu has no event of its own (an idle game leaves the others' music alone)
+    const unsubscribe = store.subscribe((state) => {
+      if (isActive() && state.status === GameStatus.MENU && this.frameId !== null) {
+        this.stop();
+      }
+    });
+
+    return () => {
+      for (const [event, handler] of handlers) {
+        eventBus.off(event, handler);
+      }
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Stop the music
+   */
+  public stop(): void {
+    this.activeStore = null;
+    this.sequencer.stop();
+    if (this.frameId !== null) {
+      this.clock.cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  /**
+   * Apply the tempo for the current level and danger state
+   */
+  private updateTempo(): void {
+    this.sequencer.setTempoMultiplier(getMusicTempo(this.level, this.inDanger));
+  }
+
+  /**
+   * Schedule notes every frame until stopped
+   */
+  private startFrames(): void {
+    if (this.frameId !== null) return;
+
+    const frame = (): void => {
+      const now = this.engine.now();
+      for (const scheduled of this.sequencer.advance(now, now + MUSIC_LOOKAHEAD)) {
+        this.engine.play(AudioChannel.MUSIC, [scheduled.tone], scheduled.time);
+      }
+      this.frameId = this.clock.requestFrame(frame);
+    };
+    this.frameId = this.clock.requestFrame(frame);
+  }
+}
@@ -0,0 +1,128 @@
+// Finesse tracker - counts the inputs spent on each piece and flags wasted ones
+
+import { Store } from '@domain/Store';
+import { EventBus } from '@domain/EventBus';
+import { GameState, GameEvent, InputAction, FinesseFaultPayload } from '@domain/types';
+import { getMinimumInputs } from '@domain/Finesse';
+import { Piece } from '@infrastructure/Piece';
+import { PieceType, SPAWN_Y } from '@infrastructure/constants';
+import { ActionDispatcher } from './ActionDispatcher';
+
+/**
+ * Finesse results for one piece type
+ */
+export interface PieceFinesse {
+  pieces: number; // pieces judged
+  faults: number; // pieces placed with extra inputs
+  errors: number; // extra inputs in total
+}
+
+/**
+ * Finesse results for a whole game
+ */
+export interface FinesseStats {
+  errors: number;
+  faults: number;
+  pieces: number;
+  byPiece: Record<PieceType, PieceFinesse>;
+}
+
+// Inputs that count toward finesse (drops and hold don't)
+const FINESSE_ACTIONS = new Set<InputAction>([
+  InputAction.MOVE_LEFT,
+  InputAction.MOVE_RIGHT,
+  InputAction.ROTATE_CW,
+  InputAction.ROTATE_CCW,
+]);
+
+export class FinesseTracker {
+  private inputs: number = 0;
+  private stats: FinesseStats = FinesseTracker.createStats();
+
+  constructor(
+    private store: Store<GameState>,
+    private eventBus: EventBus,
+    dispatcher: ActionDispatcher
+  ) {
+    // Auto-repeats belong to the press that started them
+    dispatcher.subscribe((action, isRepeat) => {
+      if (!isRepeat && FINESSE_ACTIONS.has(action)) {
+        this.inputs++;
+      }
+    });
+
+    eventBus.on(GameEvent.GAME_START, () => {
+      this.stats = FinesseTracker.createStats();
+      this.inputs = 0;
+    });
+    eventBus.on(GameEvent.PIECE_SPAWN, () => (this.inputs = 0));
+    eventBus.on(GameEvent.HOLD_PIECE, () => (this.inputs = 0));
+    eventBus.on<Piece>(GameEvent.PIECE_LOCK, (piece) => this.judge(piece));
+  }
+
+  /**
+   * Get the finesse results of the current game
+   */
+  public getStats(): Readonly<FinesseStats> {
+    return this.stats;
+  }
+
+  /**
+   * Compare the inputs used for a locked piece with the minimum for its placement
+   */
+  private judge(piece: Piece): void {
+    const state = this.store.getState();
+
+    // Tucks and spins can't be reached with a straight drop - they aren't judged
+    if (!this.isDroppedStraight(state, piece)) return;
+
+    const minimum = getMinimumInputs(piece.type, piece.rotation, state.currentX);
+    if (minimum === null) return;
+
+    const errors = Math.max(this.inputs - minimum, 0);
+    const pieceStats = this.stats.byPiece[piece.type];
+    pieceStats.pieces++;
+    this.stats.pieces++;
+
+    if (errors > 0) {
+      pieceStats.faults++;
+      pieceStats.errors += errors;
+      this.stats.faults++;
+      this.stats.errors += errors;
+      this.eventBus.emit<FinesseFaultPayload>(GameEvent.FINESSE_FAULT, {
+        piece: piece.type,
+        inputs: this.inputs,
+        minimum,
+      });
+    }
+  }
+
+  /**
+   * Check that nothing above the locked piece blocks a straight drop from spawn height
+   */
+  private isDroppedStraight(state: Readonly<GameState>, piece: Piece): boolean {
+    // The piece is already part of the board - take it back out
+    const board = state.board.clone();
+    for (const { row, col } of piece.getFilledCells()) {
+      board.setCell(state.currentX + col, state.currentY + row, 0);
+    }
+
+    for (let y = SPAWN_Y; y < state.currentY; y++) {
+      if (!board.isValidPosition(piece, state.currentX, y)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Empty results for a new game
+   */
+  private static createStats(): FinesseStats {
+    const byPiece = {} as Record<PieceType, PieceFinesse>;
+    for (const type of Object.values(PieceType)) {
+      byPiece[type] = { pieces: 0, faults: 0, errors: 0 };
+    }
+    return { errors: 0, faults: 0, pieces: 0, byPiece };
+  }
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import { GameController } from './GameController';
+import { DEFAULT_KEY_BINDINGS } from './KeyBindings';
+import { DEFAULT_HANDLING } from './Handling';
+import { GameEvent, GameMode, GameStatus, GarbageSendPayload, InputAction } from '@domain/types';
+import { ManualClock } from '@infrastructure/Clock';
+import { Piece } from '@infrastructure/Piece';
+import {
+  FRAME_TIME,
+  INITIAL_DROP_INTERVAL,
+  LOCK_DELAY,
+  KeyCode,
+  PieceType,
+  SURVIVAL_RISE_INTERVAL,
+} from '@infrastructure/constants';
+
+const SEED = 12345;
+
+/**
+ * A headless game on a manual clock, started from a fixed seed
+ */
+function startGame(): GameController {
+  const game = new GameController({}, new ManualClock());
+  game.start(SEED);
+  return game;
+}
+
+/**
+ * Hard drop a vertical I into a four-row well in the left column, clearing a tetris
+ * (a block left above the well keeps it from being a perfect clear)
+ */
+function clearTetris(game: GameController): void {
+  const { board } = game.store.getState();
+  for (let y = board.height - 4; y < board.height; y++) {
+    for (let x = 1; x < board.width; x++) board.setCell(x, y, 1);
+  }
+  board.setCell(board.width - 1, board.height - 5, 1);
+
+  const piece = new Piece(PieceType.I);
+  piece.rotate('clockwise');
+  game.store.setState({ currentPiece: piece, currentX: -piece.getFilledCells()[0].col });
+  game.dispatcher.dispatch(InputAction.HARD_DROP);
+}
+
+describe('GameController on a ManualClock', () => {
+  it('drops the piece one row per drop interval', () => {
+    const game = startGame();
+    const spawnY = game.store.getState().currentY;
+
+    // Allow a frame or two either side for floating point drift in the tick accumulator
+    game.step(INITIAL_DROP_INTERVAL - 2 * FRAME_TIME);
+    expect(game.store.getState().currentY).toBe(spawnY);
+
+    game.step(4 * FRAME_TIME);
+    expect(game.store.getState().currentY).toBe(spawnY + 1);
+
+    game.destroy();
+  });
+
+  it('locks a grounded piece once the lock delay runs out', () => {
+    const game = startGame();
+    let locks = 0;
+    game.eventBus.on(GameEvent.PIECE_LOCK, () => locks++);
+
+    while (game.gameActions.moveDown()) {
+      // Drop to the floor
+    }
+
+    game.step(LOCK_DELAY - 2 * FRAME_TIME);
+    expect(locks).toBe(0);
+    expect(game.store.getState().lockTimer).toBeGreaterThan(0);
+
+    game.step(4 * FRAME_TIME);
+    expect(locks).toBe(1);
+
+    game.destroy();
+  });
+
+  it('soft drops at a multiple of the current gravity', () => {
+    const game = new GameController(
+      {},
+      new ManualClock(),
+      DEFAULT_KEY_BINDINGS,
+      { ...DEFAULT_HANDLING, softDropFactor: 2 }
+    );
+    game.start(SEED);
+    // A higher level, where gravity is well past level 1's
+    const dropInterval = 100;
+    game.store.setState({ level: 10, dropInterval });
+    const spawnY = game.store.getState().currentY;
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: KeyCode.DOWN }));
+    game.step(300);
+    window.dispatchEvent(new KeyboardEvent('keyup', { code: KeyCode.DOWN }));
+
+    // With soft drop held the piece falls at least twice as fast as gravity alone
+    const rows = game.store.getState().currentY - spawnY;
+    expect(rows).toBeGreaterThanOrEqual((2 * 300) / dropInterval);
+
+    game.destroy();
+  });
+
+  it('does not advance while paused', () => {
+    const game = startGame();
+    const spawnY = game.store.getState().currentY;
+
+    game.pause();
+    game.step(3 * INITIAL_DROP_INTERVAL);
+    expect(game.store.getState().status).toBe(GameStatus.PAUSED);
+    expect(game.store.getState().currentY).toBe(spawnY);
+
+    game.destroy();
+  });
+
+  it('replays a recorded game to the same result', () => {
+    const game = startGame();
+    const inputs = [InputAction.MOVE_LEFT, InputAction.ROTATE_CW, InputAction.MOVE_RIGHT];
+
+    // Scatter pieces around the board, letting gravity and lock delay act between inputs
+    for (let i = 0; i < 30; i++) {
+      for (let j = 0; j <= i % 4; j++) {
+        game.dispatcher.dispatch(inputs[(i + j) % inputs.length]);
+      }
+      game.step(i % 3 === 0 ? 1500 : 200);
+      game.dispatcher.dispatch(InputAction.HARD_DROP);
+      game.step(100);
+    }
+
+    const played = game.store.getState();
+    const result = { score: played.score, lines: played.lines, grid: played.board.getGrid() };
+    const replay = game.replayRecorder.getReplay()!;
+    expect(result.score).toBeGreaterThan(0);
+
+    game.playReplay(replay);
+    game.step(replay.duration * FRAME_TIME + INITIAL_DROP_INTERVAL);
+
+    const replayed = game.store.getState();
+    expect(replayed.score).toBe(result.score);
+    expect(replayed.lines).toBe(result.lines);
+    expect(replayed.board.getGrid()).toEqual(result.grid);
+
+    game.destroy();
+  });
+
+  it('keeps bot paths within the lock reset limit', () => {
+    const game = new GameController({ lockResetLimit: 0 }, new ManualClock());
+    let locks = 0;
+    game.eventBus.on(GameEvent.PIECE_LOCK, () => locks++);
+    game.autoplay.enable();
+    game.start(7);
+
+    // A piece locking part way along its path sends the rest of it to the next piece
+    let placements = 0;
+    for (let time = 0; time < 60000; time += FRAME_TIME) {
+      locks = 0;
+      game.step(FRAME_TIME);
+      expect(locks).toBeLessThanOrEqual(1);
+      placements += locks;
+    }
+    expect(game.store.getState().status).toBe(GameStatus.PLAYING);
+    expect(placements).toBeGreaterThan(0);
+
+    game.destroy();
+  });
+
+  it('replays held-key repeats at the same point in the tick as the live game', () => {
+    // A held move at 0 ms ARR repeats on every tick (retrying at the wall), so some
+    // repeats share a tick with a garbage rise
+    const game = new GameController(
+      { mode: GameMode.SURVIVAL },
+      new ManualClock(),
+      DEFAULT_KEY_BINDINGS,
+      { ...DEFAULT_HANDLING, arr: 0 }
+    );
+
+    // What each dispatched action saw of the tick's timer and garbage updates
+    let log: [InputAction, number, number][] = [];
+    game.dispatcher.subscribe((action) => {
+      const state = game.store.getState();
+      log.push([action, state.elapsedTime, state.incomingGarbage]);
+    });
+    let rises = 0;
+    game.eventBus.on(GameEvent.GARBAGE_RISE, () => rises++);
+
+    game.autoplay.enable();
+    game.start(SEED);
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: KeyCode.LEFT }));
+    game.step(2.5 * SURVIVAL_RISE_INTERVAL);
+
+    const played = game.store.getState();
+    const result = { grid: played.board.getGrid(), score: played.score };
+    const liveLog = log;
+    const replay = game.replayRecorder.getReplay()!;
+    expect(rises).toBeGreaterThan(0);
+    expect(played.status).toBe(GameStatus.PLAYING);
+
+    log = [];
+    game.playReplay(replay);
+    game.step(replay.duration * FRAME_TIME + INITIAL_DROP_INTERVAL);
+
+    expect(log).toEqual(liveLog);
+    expect(game.store.getState().board.getGrid()).toEqual(result.grid);
+    expect(game.store.getState().score).toBe(result.score);
+
+    game.destroy();
+  });
+});
+
+describe('GameController line clear attacks', () => {
+  it('cancels incoming garbage and sends the rest in versus', () => {
+    const game = new GameController({ mode: GameMode.VERSUS }, new ManualClock());
+    const sent: GarbageSendPayload[] = [];
+    game.eventBus.on<GarbageSendPayload>(GameEvent.GARBAGE_SEND, (payload) => sent.push(payload));
+    game.start(SEED);
+    game.store.setState({ incomingGarbage: 1 });
+
+    clearTetris(game);
+
+    expect(game.store.getState().lines).toBe(4);
+    expect(game.store.getState().incomingGarbage).toBe(0);
+    expect(sent).toEqual([{ rows: 3, cancelled: 1 }]);
+
+    game.destroy();
+  });
+
+  it('leaves the rows rising in Survival queued', () => {
+    const game = new GameController({ mode: GameMode.SURVIVAL }, new ManualClock());
+    let sends = 0;
+    game.eventBus.on(GameEvent.GARBAGE_SEND, () => sends++);
+    game.start(SEED);
+    game.store.setState({ incomingGarbage: 2 });
+
+    clearTetris(game);
+
+    expect(game.store.getState().lines).toBe(4);
+    expect(game.store.getState().incomingGarbage).toBe(2);
+    expect(sends).toBe(0);
+
+    game.destroy();
+  });
+});
@@ -1,32 +1,107 @@
 // Game controller - orchestrates all layers
 
 import { Store } from '@domain/Store';
-import { GameState, GameStatus } from '@domain/types';
+import { GameState, GameStatus, GameSettings, GameEvent, GameMode } from '@domain/types';
+import { getModeRules } from '@domain/GameModes';
 import { EventBus } from '@domain/EventBus';
 import { GameActions } from '@domain/GameActions';
 import { Board } from '@infrastructure/Board';
 import { PieceGenerator } from '@infrastructure/PieceGenerator';
+import { RandomizerType, createRandomizer } from '@infrastructure/Randomizer';
+import { Clock, BrowserClock, ManualClock } from '@infrastructure/Clock';
 import { InputHandler } from './InputHandler';
 import { GameLoop } from './GameLoop';
-import { BOARD_WIDTH, BOARD_HEIGHT, INITIAL_DROP_INTERVAL } from '@infrastructure/constants';
+import { ActionDispatcher } from './ActionDispatcher';
+import { ReplayRecorder } from './ReplayRecorder';
+import { ReplayPlayer } from './ReplayPlayer';
+import { Replay } from './Replay';
+import { KeyBindings, DEFAULT_KEY_BINDINGS } from './KeyBindings';
+import { Autoplay } from './Autoplay';
+import { HandlingSettings, DEFAULT_HANDLING } from './Handling';
+import { GamepadInput } from './GamepadInput';
+import { GamepadMapping, DEFAULT_GAMEPAD_MAPPING } from './GamepadMapping';
+import { TouchInput } from './TouchInput';
+import { FinesseTracker } from './FinesseTracker';
+import {
+  BOARD_WIDTH,
+  BOARD_HEIGHT,
+  INITIAL_DROP_INTERVAL,
+  LOCK_DELAY,
+  LOCK_RESET_LIMIT,
+  NEXT_PREVIEW_COUNT,
+  MAX_PREVIEW_COUNT,
+  FRAME_TIME,
+  DEFAULT_SPRINT_LINES,
+  DEFAULT_ULTRA_DURATION,
+  DEFAULT_MARATHON_LINES,
+  DEFAULT_DIG_LINES,
+} from '@infrastructure/constants';
+
+/**
+ * Keep a preview count within what the next queue can show
+ */
+function clampPreviewCount(previewCount: number): number {
+  return Math.min(Math.max(previewCount, 0), MAX_PREVIEW_COUNT);
+}
 
 export class GameController {
   public readonly store: Store<GameState>;
   public readonly eventBus: EventBus;
   public readonly gameActions: GameActions;
+  public readonly dispatcher: ActionDispatcher;
+  public readonly replayRecorder: ReplayRecorder;
+  public readonly replayPlayer: ReplayPlayer;
+  public readonly autoplay: Autoplay;
+  public readonly finesseTracker: FinesseTracker;
+  public readonly touchInput: TouchInput;
   private readonly inputHandler: InputHandler;
+  private readonly gamepadInput: GamepadInput;
   private readonly gameLoop: GameLoop;
   private readonly pieceGenerator: PieceGenerator;
+  private settings: GameSettings;
+  private settingsBeforeReplay: GameSettings | null = null;
   private renderCallback: (() => void) | null = null;
+  private keyBindings: KeyBindings;
+  private handling: HandlingSettings;
+  private gamepadMapping: GamepadMapping;
+
+  constructor(
+    settings: Partial<GameSettings> = {},
+    private readonly clock: Clock = new BrowserClock(),
+    keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS,
+    handling: HandlingSettings = DEFAULT_HANDLING,
+    gamepadMapping: GamepadMapping = DEFAULT_GAMEPAD_MAPPING,
+    gamepadIndex: number | null = null
+  ) {
+    // Resolve settings against defaults
+    this.settings = {
+      lockDelay: settings.lockDelay ?? LOCK_DELAY,
+      lockResetLimit: settings.lockResetLimit ?? LOCK_RESET_LIMIT,
+      randomizer: settings.randomizer ?? RandomizerType.BAG_7,
+      previewCount: clampPreviewCount(settings.previewCount ?? NEXT_PREVIEW_COUNT),
+      mode: settings.mode ?? GameMode.MARATHON,
+      sprintLines: settings.sprintLines ?? DEFAULT_SPRINT_LINES,
+      ultraDuration: settings.ultraDuration ?? DEFAULT_ULTRA_DURATION,
+      marathonLines: settings.marathonLines ?? DEFAULT_MARATHON_LINES,
+      digLines: settings.digLines ?? DEFAULT_DIG_LINES,
+    };
+    this.keyBindings = keyBindings;
+    this.handling = handling;
+    this.gamepadMapping = gamepadMapping;
 
-  constructor() {
     // Initialize core components
     this.eventBus = new EventBus();
-    this.pieceGenerator = new PieceGenerator(1); // 1 piece preview
+    this.pieceGenerator = new PieceGenerator(
+      this.settings.previewCount,
+      createRandomizer(this.settings.randomizer)
+    );
 
     // Create initial state
     const initialState: GameState = {
       status: GameStatus.MENU,
+      mode: this.settings.mode,
+      modeRules: getModeRules(this.settings),
+      elapsedTime: 0,
       board: new Board(BOARD_WIDTH, BOARD_HEIGHT),
       currentPiece: null,
       currentX: 0,
@@ -34,11 +109,25 @@ export class GameController {
       holdPiece: null,
       canHold: true,
       nextPieces: [],
+      seed: 0,
       score: 0,
       lines: 0,
       level: 1,
+      combo: -1,
+      backToBack: false,
       dropInterval: INITIAL_DROP_INTERVAL,
-      lastDropTime: Date.now(),
+      lastDropTime: clock.now(),
+      lockDelay: this.settings.lockDelay,
+      lockResetLimit: this.settings.lockResetLimit,
+      lockTimer: 0,
+      lockResets: 0,
+      lowestY: 0,
+      lastKickIndex: null,
+      garbageRemaining: 0,
+      incomingGarbage: 0,
+      garbageRiseTimer: 0,
+      garbageRiseInterval: 0,
+      perfectClearTimer: 0,
       isDirty: true,
     };
 
@@ -46,19 +135,120 @@ export class GameController {
     this.store = new Store(initialState);
 
     // Initialize game actions
-    this.gameActions = new GameActions(this.store, this.eventBus, this.pieceGenerator);
+    this.gameActions = new GameActions(this.store, this.eventBus, this.pieceGenerator, clock);
+
+    // Initialize action dispatcher (all player input goes through it)
+    this.dispatcher = new ActionDispatcher(this.gameActions, () => this.togglePause());
 
     // Initialize input handler
-    this.inputHandler = new InputHandler(this.gameActions);
+    this.inputHandler = new InputHandler(this.dispatcher, this.store, clock, keyBindings, handling);
+
+    // Initialize gamepad input (shares the input handler's DAS/ARR)
+    this.gamepadInput = new GamepadInput(this.inputHandler, gamepadMapping, gamepadIndex);
+
+    // Initialize touch input (gestures on the board and on-screen buttons)
+    this.touchInput = new TouchInput(this.dispatcher, this.inputHandler, clock, BOARD_WIDTH);
 
     // Initialize game loop (renderCallback will be set later)
-    this.gameLoop = new GameLoop(this.store, this.gameActions, this.inputHandler, () => {
-      if (this.renderCallback) {
-        this.renderCallback();
+    this.gameLoop = new GameLoop(
+      this.store,
+      this.gameActions,
+      this.inputHandler,
+      this.gamepadInput,
+      clock,
+      () => {
+        if (this.renderCallback) {
+          this.renderCallback();
+        }
       }
+    );
+
+    // Initialize replay recording and playback
+    this.replayRecorder = new ReplayRecorder(this.dispatcher, this.gameLoop);
+    this.replayPlayer = new ReplayPlayer(
+      this.store,
+      this.gameActions,
+      this.gameLoop,
+      this.dispatcher
+    );
+    this.eventBus.on(GameEvent.GAME_OVER, () => this.replayRecorder.finish());
+    this.eventBus.on(GameEvent.GAME_FINISH, () => this.replayRecorder.finish());
+
+    // Initialize finesse tracking
+    this.finesseTracker = new FinesseTracker(this.store, this.eventBus, this.dispatcher);
+
+    // Initialize the autoplay bot (off until enabled)
+    this.autoplay = new Autoplay(this.store, this.dispatcher, this.gameLoop);
+  }
+
+  /**
+   * Get the active settings
+   */
+  public getSettings(): Readonly<GameSettings> {
+    return this.settings;
+  }
+
+  /**
+   * Change settings between games
+   */
+  public applySettings(settings: Partial<GameSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.settings.previewCount = clampPreviewCount(this.settings.previewCount);
+    this.pieceGenerator.setPreviewCount(this.settings.previewCount);
+    this.pieceGenerator.setRandomizer(createRandomizer(this.settings.randomizer));
+    this.store.setState({
+      lockDelay: this.settings.lockDelay,
+      lockResetLimit: this.settings.lockResetLimit,
+      mode: this.settings.mode,
+      modeRules: getModeRules(this.settings),
     });
   }
 
+  /**
+   * Get the active key bindings
+   */
+  public getKeyBindings(): Readonly<KeyBindings> {
+    return this.keyBindings;
+  }
+
+  /**
+   * Change the key bindings (takes effect immediately, even mid-game)
+   */
+  public setKeyBindings(bindings: KeyBindings): void {
+    this.keyBindings = bindings;
+    this.inputHandler.setBindings(bindings);
+  }
+
+  /**
+   * Get the active handling settings
+   */
+  public getHandling(): Readonly<HandlingSettings> {
+    return this.handling;
+  }
+
+  /**
+   * Change DAS, ARR and soft drop speed (takes effect immediately)
+   */
+  public setHandling(handling: HandlingSettings): void {
+    this.handling = handling;
+    this.inputHandler.setHandling(handling);
+  }
+
+  /**
+   * Get the active gamepad mapping
+   */
+  public getGamepadMapping(): Readonly<GamepadMapping> {
+    return this.gamepadMapping;
+  }
+
+  /**
+   * Change the gamepad mapping (takes effect immediately)
+   */
+  public setGamepadMapping(mapping: GamepadMapping): void {
+    this.gamepadMapping = mapping;
+    this.gamepadInput.setMapping(mapping);
+  }
+
   /**
    * Set the render callback
    */
@@ -67,14 +257,39 @@ export class GameController {
   }
 
   /**
-   * Start a new game
+   * Start a new game (pass a seed to replay a known piece sequence)
    */
-  public start(): void {
-    this.gameActions.startGame();
+  public start(seed?: number): void {
+    if (this.replayPlayer.isActive()) {
+      this.exitReplay();
+    }
+
+    this.gameActions.startGame(seed);
+    this.gameLoop.resetTicks();
+    this.replayRecorder.begin(this.store.getState().seed, this.settings);
     this.inputHandler.start();
+    this.gamepadInput.start();
+    this.touchInput.start();
     this.gameLoop.start();
   }
 
+  /**
+   * Advance a manually clocked game by the given time, one frame at a time
+   */
+  public step(ms: number): void {
+    if (!(this.clock instanceof ManualClock)) {
+      throw new Error('step() requires the game to be created with a ManualClock');
+    }
+
+    // Feed frames no longer than one tick so the loop's delta cap never drops time
+    let remaining = ms;
+    while (remaining > 0) {
+      const frame = Math.min(remaining, FRAME_TIME);
+      this.clock.advance(frame);
+      remaining -= frame;
+    }
+  }
+
   /**
    * Pause the game
    */
@@ -97,11 +312,12 @@ export class GameController {
   }
 
   /**
-   * Restart the game
+   * Restart the game, from a new random seed unless one is given
    */
-  public restart(): void {
+  public restart(seed?: number): void {
     this.stop();
-    this.start();
+    this.gameActions.quit();
+    this.start(seed);
   }
 
   /**
@@ -110,6 +326,36 @@ export class GameController {
   public stop(): void {
     this.gameLoop.stop();
     this.inputHandler.stop();
+    this.gamepadInput.stop();
+    this.touchInput.stop();
+  }
+
+  /**
+   * Play back a recorded game (live input is disabled until the replay exits)
+   */
+  public playReplay(replay: Replay): void {
+    this.stop();
+    this.replayRecorder.finish();
+    // The bot would add its own moves to the replayed game
+    this.autoplay.disable();
+
+    if (!this.replayPlayer.isActive()) {
+      this.settingsBeforeReplay = this.settings;
+    }
+    this.applySettings(replay.rules);
+    this.replayPlayer.load(replay);
+  }
+
+  /**
+   * Leave replay playback and restore the player's settings
+   */
+  public exitReplay(): void {
+    this.replayPlayer.unload();
+
+    if (this.settingsBeforeReplay) {
+      this.applySettings(this.settingsBeforeReplay);
+      this.settingsBeforeReplay = null;
+    }
   }
 
   /**
@@ -1,19 +1,28 @@
-// Main game loop using requestAnimationFrame
+// Main game loop - fixed timestep logic updates driven by the clock's frames
 
 import { Store } from '@domain/Store';
 import { GameState, GameStatus } from '@domain/types';
 import { GameActions } from '@domain/GameActions';
 import { InputHandler } from './InputHandler';
+import { GamepadInput } from './GamepadInput';
+import { FRAME_TIME } from '@infrastructure/constants';
+import { Clock } from '@infrastructure/Clock';
 
 export class GameLoop {
   private animationId: number | null = null;
   private lastFrameTime: number = 0;
+  private frameAccumulator: number = 0; // real time not yet simulated
   private dropAccumulator: number = 0;
+  private tickCount: number = 0;
+  private timeScale: number = 1;
+  private beforeTickCallbacks: Set<(tick: number) => void> = new Set();
 
   constructor(
     private store: Store<GameState>,
     private gameActions: GameActions,
     private inputHandler: InputHandler,
+    private gamepadInput: GamepadInput,
+    private clock: Clock,
     private renderCallback: () => void
   ) {}
 
@@ -25,8 +34,8 @@ export class GameLoop {
       return; // Already running
     }
 
-    this.lastFrameTime = performance.now();
-    this.dropAccumulator = 0;
+    this.lastFrameTime = this.clock.now();
+    this.frameAccumulator = 0;
     this.loop(this.lastFrameTime);
   }
 
@@ -35,16 +44,23 @@ export class GameLoop {
    */
   public stop(): void {
     if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
+      this.clock.cancelFrame(this.animationId);
       this.animationId = null;
     }
   }
 
+  /**
+   * Check if the loop is running
+   */
+  public isRunning(): boolean {
+    return this.animationId !== null;
+  }
+
   /**
    * Main game loop
    */
   private loop(currentTime: number): void {
-    this.animationId = requestAnimationFrame((time) => this.loop(time));
+    this.animationId = this.clock.requestFrame((time) => this.loop(time));
 
     const deltaTime = currentTime - this.lastFrameTime;
     this.lastFrameTime = currentTime;
@@ -52,14 +68,32 @@ export class GameLoop {
     // Cap delta time to prevent spiral of death
     const cappedDeltaTime = Math.min(deltaTime, 100);
 
-    this.update(cappedDeltaTime);
+    // Run as many fixed ticks as the elapsed (scaled) time allows (a tick may stop the loop)
+    this.frameAccumulator += cappedDeltaTime * this.timeScale;
+    while (this.animationId !== null && this.frameAccumulator >= FRAME_TIME) {
+      this.frameAccumulator -= FRAME_TIME;
+      this.tick();
+    }
+
     this.render();
   }
 
+  /**
+   * Run a single fixed-length logic update
+   */
+  public tick(): void {
+    this.beforeTickCallbacks.forEach((callback) => callback(this.tickCount));
+    this.update(FRAME_TIME);
+    this.tickCount++;
+  }
+
   /**
    * Update game state
    */
   private update(deltaTime: number): void {
+    // Poll gamepads even while paused so Start can resume
+    this.gamepadInput.poll();
+
     const state = this.store.getState();
 
     // Only update if playing
@@ -67,21 +101,37 @@ export class GameLoop {
       return;
     }
 
-    // Update input (for DAS/ARR)
+    // Update input (for DAS/ARR) before the timer and garbage - replays dispatch
+    // the recorded repeats before the tick runs, so live repeats must come first too
     this.inputHandler.update();
 
-    // Handle automatic piece dropping (gravity)
+    // Advance the play timer (timed modes may end here)
+    this.gameActions.updateTimer(deltaTime);
+    if (this.store.getState().status !== GameStatus.PLAYING) {
+      return;
+    }
+
+    // Queue rising garbage rows
+    this.gameActions.updateGarbageRise(deltaTime);
+
+    // Handle automatic piece dropping (gravity) - high levels drop several rows per tick
     this.dropAccumulator += deltaTime;
 
-    if (this.dropAccumulator >= state.dropInterval) {
-      this.gameActions.moveDown();
-      this.dropAccumulator -= state.dropInterval;
+    while (this.dropAccumulator >= this.store.getState().dropInterval) {
+      this.dropAccumulator -= this.store.getState().dropInterval;
 
-      // Prevent accumulator from getting too large
-      if (this.dropAccumulator > state.dropInterval) {
+      // Grounded pieces don't bank gravity
+      if (!this.gameActions.moveDown()) {
         this.dropAccumulator = 0;
+        break;
       }
     }
+
+    // Advance lock delay while the piece rests on the stack
+    this.gameActions.updateLockDelay(deltaTime);
+
+    // Fade out the perfect clear banner
+    this.gameActions.updatePerfectClearBanner(deltaTime);
   }
 
   /**
@@ -102,7 +152,49 @@ export class GameLoop {
    * Reset the loop state
    */
   public reset(): void {
-    this.lastFrameTime = performance.now();
+    this.lastFrameTime = this.clock.now();
+    this.frameAccumulator = 0;
     this.dropAccumulator = 0;
   }
+
+  /**
+   * Restart tick counting for a new game
+   */
+  public resetTicks(): void {
+    this.tickCount = 0;
+    this.dropAccumulator = 0;
+  }
+
+  /**
+   * Get the number of ticks run since the game started
+   */
+  public getTickCount(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Set the simulation speed multiplier (1 = real time)
+   */
+  public setTimeScale(scale: number): void {
+    this.timeScale = scale;
+  }
+
+  /**
+   * Add a callback invoked before every tick with the tick number (returns a function that removes it)
+   */
+  public onBeforeTick(callback: (tick: number) => void): () => void {
+    this.beforeTickCallbacks.add(callback);
+
+    return () => {
+      this.beforeTickCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Force a render of the current state
+   */
+  public forceRender(): void {
+    this.store.setState({ isDirty: true });
+    this.render();
+  }
 }
@@ -0,0 +1,124 @@
+// Gamepad input - polled every tick and fed through the keyboard's DAS/ARR logic
+
+import { InputAction } from '@domain/types';
+import { GAMEPAD_AXIS_X, GAMEPAD_AXIS_Y } from '@infrastructure/constants';
+import { InputHandler } from './InputHandler';
+import { GamepadMapping, DEFAULT_GAMEPAD_MAPPING } from './GamepadMapping';
+
+/**
+ * Reads the connected pads (navigator.getGamepads in the browser)
+ */
+export type GamepadSource = () => ReadonlyArray<Gamepad | null>;
+
+/**
+ * Browser gamepads, or none when running headless
+ */
+function getBrowserGamepads(): ReadonlyArray<Gamepad | null> {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) {
+    return [];
+  }
+  return navigator.getGamepads();
+}
+
+export class GamepadInput {
+  private active: boolean = false;
+  private held: Map<string, InputAction> = new Map(); // input id -> action, as of the last poll
+
+  constructor(
+    private inputHandler: InputHandler,
+    private mapping: GamepadMapping = DEFAULT_GAMEPAD_MAPPING,
+    private padIndex: number | null = null, // null = any pad
+    private getGamepads: GamepadSource = getBrowserGamepads
+  ) {}
+
+  /**
+   * Start reacting to gamepads
+   */
+  public start(): void {
+    this.active = true;
+  }
+
+  /**
+   * Stop reacting to gamepads and release anything held
+   */
+  public stop(): void {
+    this.active = false;
+    this.releaseAll();
+  }
+
+  /**
+   * Replace the mapping (held inputs are released)
+   */
+  public setMapping(mapping: GamepadMapping): void {
+    this.mapping = mapping;
+    this.releaseAll();
+  }
+
+  /**
+   * Read the pads and turn changes since the last poll into presses and releases.
+   * Pads that disconnect simply stop reporting, so their inputs are released.
+   */
+  public poll(): void {
+    if (!this.active) return;
+
+    const held = new Map<string, InputAction>();
+    for (const pad of this.getGamepads()) {
+      if (!pad || !pad.connected) continue;
+      if (this.padIndex !== null && pad.index !== this.padIndex) continue;
+      this.readPad(pad, held);
+    }
+
+    for (const [inputId, action] of held) {
+      if (!this.held.has(inputId)) {
+        this.inputHandler.press(inputId, action);
+      }
+    }
+    for (const inputId of this.held.keys()) {
+      if (!held.has(inputId)) {
+        this.inputHandler.release(inputId);
+      }
+    }
+
+    this.held = held;
+  }
+
+  /**
+   * Collect the actions a pad is holding (buttons, then the left stick)
+   */
+  private readPad(pad: Gamepad, held: Map<string, InputAction>): void {
+    const prefix = `pad${pad.index}:`;
+
+    for (const action of Object.values(InputAction)) {
+      for (const button of this.mapping.buttons[action]) {
+        if (pad.buttons[button]?.pressed) {
+          held.set(`${prefix}button${button}`, action);
+        }
+      }
+    }
+
+    // The stick moves and soft drops once it leaves the dead-zone (up does nothing,
+    // so a sloppy push can't hard drop)
+    const x = pad.axes[GAMEPAD_AXIS_X] ?? 0;
+    const y = pad.axes[GAMEPAD_AXIS_Y] ?? 0;
+    const { deadZone } = this.mapping;
+
+    if (x < -deadZone) {
+      held.set(`${prefix}stickLeft`, InputAction.MOVE_LEFT);
+    } else if (x > deadZone) {
+      held.set(`${prefix}stickRight`, InputAction.MOVE_RIGHT);
+    }
+    if (y > deadZone) {
+      held.set(`${prefix}stickDown`, InputAction.SOFT_DROP);
+    }
+  }
+
+  /**
+   * Release every held input
+   */
+  private releaseAll(): void {
+    for (const inputId of this.held.keys()) {
+      this.inputHandler.release(inputId);
+    }
+    this.held.clear();
+  }
+}
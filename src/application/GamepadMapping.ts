@@ -0,0 +1,106 @@
+// Gamepad mapping - which buttons trigger each action, and the analog stick dead-zone
+
+import { InputAction } from '@domain/types';
+import {
+  GamepadButton,
+  DEFAULT_GAMEPAD_DEAD_ZONE,
+  MAX_GAMEPAD_DEAD_ZONE,
+} from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+
+const GAMEPAD_MAPPING_PREFERENCE = 'gamepadMapping';
+
+/**
+ * Buttons bound to each action, plus the stick dead-zone (0-1)
+ */
+export interface GamepadMapping {
+  buttons: Record<InputAction, number[]>;
+  deadZone: number; // stick deflection ignored around the center
+}
+
+/**
+ * Standard layout - D-pad moves, face buttons rotate, bumpers hold
+ */
+export const DEFAULT_GAMEPAD_MAPPING: GamepadMapping = {
+  buttons: {
+    [InputAction.MOVE_LEFT]: [GamepadButton.DPAD_LEFT],
+    [InputAction.MOVE_RIGHT]: [GamepadButton.DPAD_RIGHT],
+    [InputAction.SOFT_DROP]: [GamepadButton.DPAD_DOWN],
+    [InputAction.HARD_DROP]: [GamepadButton.DPAD_UP],
+    [InputAction.ROTATE_CW]: [GamepadButton.A, GamepadButton.X],
+    [InputAction.ROTATE_CCW]: [GamepadButton.B, GamepadButton.Y],
+    [InputAction.HOLD]: [GamepadButton.LB, GamepadButton.RB],
+    [InputAction.PAUSE]: [GamepadButton.START],
+  },
+  deadZone: DEFAULT_GAMEPAD_DEAD_ZONE,
+};
+
+/**
+ * Copy a mapping so edits never touch the defaults
+ */
+export function cloneGamepadMapping(mapping: GamepadMapping): GamepadMapping {
+  const buttons = {} as Record<InputAction, number[]>;
+  for (const action of Object.values(InputAction)) {
+    buttons[action] = [...mapping.buttons[action]];
+  }
+  return { buttons, deadZone: mapping.deadZone };
+}
+
+/**
+ * Bind a button to an action, taking it away from any action it was bound to before
+ */
+export function bindButton(
+  mapping: GamepadMapping,
+  action: InputAction,
+  button: number
+): GamepadMapping {
+  const updated = cloneGamepadMapping(mapping);
+  for (const other of Object.values(InputAction)) {
+    updated.buttons[other] = updated.buttons[other].filter((b) => b !== button);
+  }
+  updated.buttons[action].push(button);
+  return updated;
+}
+
+/**
+ * Remove a button from an action
+ */
+export function unbindButton(
+  mapping: GamepadMapping,
+  action: InputAction,
+  button: number
+): GamepadMapping {
+  const updated = cloneGamepadMapping(mapping);
+  updated.buttons[action] = updated.buttons[action].filter((b) => b !== button);
+  return updated;
+}
+
+/**
+ * Load the player's mapping, falling back to the defaults for anything missing or invalid
+ */
+export function loadGamepadMapping(preferences: Preferences): GamepadMapping {
+  const stored = preferences.load(GAMEPAD_MAPPING_PREFERENCE);
+  const mapping = cloneGamepadMapping(DEFAULT_GAMEPAD_MAPPING);
+  if (typeof stored !== 'object' || stored === null) {
+    return mapping;
+  }
+
+  const raw = stored as { buttons?: Record<string, unknown>; deadZone?: unknown };
+  for (const action of Object.values(InputAction)) {
+    const buttons = raw.buttons?.[action];
+    if (Array.isArray(buttons) && buttons.every((b) => Number.isInteger(b))) {
+      mapping.buttons[action] = [...buttons];
+    }
+  }
+  if (typeof raw.deadZone === 'number') {
+    mapping.deadZone = Math.min(Math.max(raw.deadZone, 0), MAX_GAMEPAD_DEAD_ZONE);
+  }
+  return mapping;
+}
+
+/**
+ * Persist the player's mapping
+ */
+export function saveGamepadMapping(preferences: Preferences, mapping: GamepadMapping): void {
+  preferences.save(GAMEPAD_MAPPING_PREFERENCE, mapping);
+}
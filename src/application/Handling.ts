@@ -0,0 +1,75 @@
+// Handling settings - how quickly held inputs repeat (DAS, ARR and soft drop speed)
+
+import {
+  DAS_DELAY,
+  ARR_INTERVAL,
+  DEFAULT_SOFT_DROP_FACTOR,
+  MAX_DAS,
+  MAX_ARR,
+  MIN_SOFT_DROP_FACTOR,
+  MAX_SOFT_DROP_FACTOR,
+} from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+
+const HANDLING_PREFERENCE = 'handling';
+
+/**
+ * Player-tunable input repeat settings
+ */
+export interface HandlingSettings {
+  das: number; // milliseconds a move is held before it auto-repeats
+  arr: number; // milliseconds between auto-repeats (0 = straight to the wall)
+  softDropFactor: number; // soft drop speed as a multiple of current gravity (Infinity = instant)
+}
+
+export const DEFAULT_HANDLING: HandlingSettings = {
+  das: DAS_DELAY,
+  arr: ARR_INTERVAL,
+  softDropFactor: DEFAULT_SOFT_DROP_FACTOR,
+};
+
+/**
+ * Clamp settings into their supported ranges
+ */
+export function clampHandling(handling: HandlingSettings): HandlingSettings {
+  return {
+    das: Math.min(Math.max(handling.das, 0), MAX_DAS),
+    arr: Math.min(Math.max(handling.arr, 0), MAX_ARR),
+    softDropFactor: Number.isFinite(handling.softDropFactor)
+      ? Math.min(Math.max(handling.softDropFactor, MIN_SOFT_DROP_FACTOR), MAX_SOFT_DROP_FACTOR)
+      : Infinity,
+  };
+}
+
+/**
+ * Load the player's handling, falling back to the defaults for anything missing or invalid
+ */
+export function loadHandling(preferences: Preferences): HandlingSettings {
+  const stored = preferences.load(HANDLING_PREFERENCE);
+  if (typeof stored !== 'object' || stored === null) {
+    return { ...DEFAULT_HANDLING };
+  }
+
+  const raw = stored as Record<string, unknown>;
+  return clampHandling({
+    das: typeof raw.das === 'number' ? raw.das : DEFAULT_HANDLING.das,
+    arr: typeof raw.arr === 'number' ? raw.arr : DEFAULT_HANDLING.arr,
+    // JSON has no Infinity - instant soft drop is stored as null
+    softDropFactor:
+      raw.softDropFactor === null
+        ? Infinity
+        : typeof raw.softDropFactor === 'number'
+          ? raw.softDropFactor
+          : DEFAULT_HANDLING.softDropFactor,
+  });
+}
+
+/**
+ * Persist the player's handling
+ */
+export function saveHandling(preferences: Preferences, handling: HandlingSettings): void {
+  preferences.save(HANDLING_PREFERENCE, {
+    ...handling,
+    softDropFactor: Number.isFinite(handling.softDropFactor) ? handling.softDropFactor : null,
+  });
+}
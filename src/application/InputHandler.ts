@@ -1,21 +1,40 @@
-// Input handling with DAS (Delayed Auto Shift) and ARR (Auto Repeat Rate)
+// Input handling with DAS (Delayed Auto Shift), ARR (Auto Repeat Rate) and soft drop speed
 
-import { GameActions } from '@domain/GameActions';
-import { KeyCode, DAS_DELAY, ARR_INTERVAL } from '@infrastructure/constants';
+import { Store } from '@domain/Store';
+import { GameState, InputAction } from '@domain/types';
+import { Clock } from '@infrastructure/Clock';
+import { ActionDispatcher } from './ActionDispatcher';
+import { KeyBindings, DEFAULT_KEY_BINDINGS, getKeyActions } from './KeyBindings';
+import { HandlingSettings, DEFAULT_HANDLING } from './Handling';
 
 interface KeyState {
-  isPressed: boolean;
+  action: InputAction;
   lastPressTime: number;
-  repeatTime: number;
+  repeatTime: number; // when the next auto-repeat is due
 }
 
+// Actions that auto-repeat while held; everything else fires once per press
+const REPEATABLE_ACTIONS = new Set<InputAction>([
+  InputAction.MOVE_LEFT,
+  InputAction.MOVE_RIGHT,
+  InputAction.SOFT_DROP,
+]);
+
 export class InputHandler {
   private keyStates: Map<string, KeyState>;
+  private keyActions: Map<string, InputAction>;
   private boundKeyDown: (e: KeyboardEvent) => void;
   private boundKeyUp: (e: KeyboardEvent) => void;
 
-  constructor(private gameActions: GameActions) {
+  constructor(
+    private dispatcher: ActionDispatcher,
+    private store: Store<GameState>,
+    private clock: Clock,
+    bindings: KeyBindings = DEFAULT_KEY_BINDINGS,
+    private handling: HandlingSettings = DEFAULT_HANDLING
+  ) {
     this.keyStates = new Map();
+    this.keyActions = getKeyActions(bindings);
     this.boundKeyDown = this.handleKeyDown.bind(this);
     this.boundKeyUp = this.handleKeyUp.bind(this);
   }
@@ -24,6 +43,9 @@ export class InputHandler {
    * Start listening to keyboard events
    */
   public start(): void {
+    // No keyboard when running headless
+    if (typeof window === 'undefined') return;
+
     window.addEventListener('keydown', this.boundKeyDown);
     window.addEventListener('keyup', this.boundKeyUp);
   }
@@ -32,36 +54,41 @@ export class InputHandler {
    * Stop listening to keyboard events
    */
   public stop(): void {
+    this.keyStates.clear();
+    if (typeof window === 'undefined') return;
+
     window.removeEventListener('keydown', this.boundKeyDown);
     window.removeEventListener('keyup', this.boundKeyUp);
+  }
+
+  /**
+   * Replace the key bindings (held keys are released)
+   */
+  public setBindings(bindings: KeyBindings): void {
+    this.keyActions = getKeyActions(bindings);
     this.keyStates.clear();
   }
 
+  /**
+   * Replace the handling settings (applies to the next repeat)
+   */
+  public setHandling(handling: HandlingSettings): void {
+    this.handling = handling;
+  }
+
   /**
    * Handle key down event
    */
   private handleKeyDown(event: KeyboardEvent): void {
     const key = event.code;
 
-    // Prevent default for game keys
-    if (this.isGameKey(key)) {
-      event.preventDefault();
-    }
-
-    // Track key state
-    const keyState = this.keyStates.get(key);
-    const now = Date.now();
+    // Ignore keys bound to nothing (or to the other player in versus)
+    if (!this.isGameKey(key)) return;
+    event.preventDefault();
 
-    if (!keyState || !keyState.isPressed) {
-      // First press or key was released
-      this.keyStates.set(key, {
-        isPressed: true,
-        lastPressTime: now,
-        repeatTime: now + DAS_DELAY,
-      });
-
-      // Handle immediate action
-      this.handleKeyAction(key);
+    // Ignore OS key repeat - DAS/ARR handle held keys
+    if (!this.keyStates.has(key)) {
+      this.press(key, this.keyActions.get(key)!);
     }
   }
 
@@ -69,136 +96,67 @@ export class InputHandler {
    * Handle key up event
    */
   private handleKeyUp(event: KeyboardEvent): void {
-    const key = event.code;
-    this.keyStates.delete(key);
+    this.release(event.code);
   }
 
   /**
    * Update input state (called every frame for DAS/ARR)
    */
   public update(): void {
-    const now = Date.now();
+    const now = this.clock.now();
 
-    this.keyStates.forEach((state, key) => {
-      if (!state.isPressed) return;
+    this.keyStates.forEach((state) => {
+      if (!REPEATABLE_ACTIONS.has(state.action)) return;
 
-      // Check if we should repeat the action
-      if (now >= state.repeatTime) {
-        this.handleKeyAction(key);
-        state.repeatTime = now + ARR_INTERVAL;
+      const interval =
+        state.action === InputAction.SOFT_DROP ? this.getSoftDropInterval() : this.handling.arr;
+
+      // Catch up on every repeat due since the last frame - a 0 ms interval
+      // keeps going until the piece hits the wall or the floor
+      while (now >= state.repeatTime) {
+        if (!this.dispatcher.dispatch(state.action, true)) {
+          // Blocked - stay charged and try again next frame
+          state.repeatTime = now;
+          break;
+        }
+        state.repeatTime += interval;
       }
     });
   }
 
   /**
-   * Handle key action based on key code
+   * Start holding an input (a key or a gamepad control): act once now, then
+   * repeat after DAS (soft drop repeats at its own rate)
    */
-  private handleKeyAction(key: string): void {
-    switch (key) {
-      // Move left
-      case KeyCode.LEFT:
-      case KeyCode.A:
-        this.gameActions.moveLeft();
-        break;
-
-      // Move right
-      case KeyCode.RIGHT:
-      case KeyCode.D:
-        this.gameActions.moveRight();
-        break;
-
-      // Soft drop (handled by DAS/ARR)
-      case KeyCode.DOWN:
-      case KeyCode.S:
-        this.gameActions.softDrop();
-        break;
-
-      // Rotate clockwise (one-time action, no repeat)
-      case KeyCode.UP:
-      case KeyCode.W:
-      case KeyCode.X:
-        if (this.isFirstPress(key)) {
-          this.gameActions.rotate('clockwise');
-        }
-        break;
-
-      // Rotate counterclockwise (one-time action, no repeat)
-      case KeyCode.Z:
-      case KeyCode.CTRL:
-        if (this.isFirstPress(key)) {
-          this.gameActions.rotate('counterclockwise');
-        }
-        break;
+  public press(inputId: string, action: InputAction): void {
+    const now = this.clock.now();
+    const delay =
+      action === InputAction.SOFT_DROP ? this.getSoftDropInterval() : this.handling.das;
 
-      // Hard drop (one-time action, no repeat)
-      case KeyCode.SPACE:
-        if (this.isFirstPress(key)) {
-          this.gameActions.hardDrop();
-        }
-        break;
-
-      // Hold piece (one-time action, no repeat)
-      case KeyCode.C:
-      case KeyCode.SHIFT:
-        if (this.isFirstPress(key)) {
-          this.gameActions.hold();
-        }
-        break;
-
-      // Pause/Resume (one-time action, no repeat)
-      case KeyCode.P:
-      case KeyCode.ESCAPE:
-        if (this.isFirstPress(key)) {
-          this.handlePauseToggle();
-        }
-        break;
-    }
+    this.keyStates.set(inputId, { action, lastPressTime: now, repeatTime: now + delay });
+    this.dispatcher.dispatch(action);
   }
 
   /**
-   * Check if this is the first press of a key (for one-time actions)
+   * Stop holding an input
    */
-  private isFirstPress(key: string): boolean {
-    const state = this.keyStates.get(key);
-    if (!state) return false;
-
-    const now = Date.now();
-    return now < state.repeatTime;
+  public release(inputId: string): void {
+    this.keyStates.delete(inputId);
   }
 
   /**
-   * Toggle pause/resume
+   * Milliseconds per row while soft drop is held - a multiple of the current gravity (0 = instant)
    */
-  private handlePauseToggle(): void {
-    // This will be handled by GameController
-    // For now, we'll emit both pause and resume
-    // GameController will decide based on current state
-    this.gameActions.pause();
-    this.gameActions.resume();
+  private getSoftDropInterval(): number {
+    return Number.isFinite(this.handling.softDropFactor)
+      ? this.store.getState().dropInterval / this.handling.softDropFactor
+      : 0;
   }
 
   /**
-   * Check if a key is a game control key
+   * Check if a key is bound to an action
    */
   private isGameKey(key: string): boolean {
-    const gameKeys = [
-      KeyCode.LEFT,
-      KeyCode.RIGHT,
-      KeyCode.DOWN,
-      KeyCode.UP,
-      KeyCode.SPACE,
-      KeyCode.Z,
-      KeyCode.X,
-      KeyCode.C,
-      KeyCode.P,
-      KeyCode.ESCAPE,
-      KeyCode.A,
-      KeyCode.D,
-      KeyCode.S,
-      KeyCode.W,
-      KeyCode.SHIFT,
-      KeyCode.CTRL,
-    ];
-    return gameKeys.includes(key as KeyCode);
+    return this.keyActions.has(key);
   }
 }
@@ -0,0 +1,140 @@
+// Key bindings - which keyboard keys (event.code) trigger each player action
+
+import { InputAction } from '@domain/types';
+import { KeyCode } from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+
+const KEY_BINDINGS_PREFERENCE = 'keyBindings';
+
+/**
+ * Keys bound to each action (an action may have several keys)
+ */
+export type KeyBindings = Record<InputAction, string[]>;
+
+/**
+ * Single-player layout - arrows or WASD
+ */
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  [InputAction.MOVE_LEFT]: [KeyCode.LEFT, KeyCode.A],
+  [InputAction.MOVE_RIGHT]: [KeyCode.RIGHT, KeyCode.D],
+  [InputAction.SOFT_DROP]: [KeyCode.DOWN, KeyCode.S],
+  [InputAction.HARD_DROP]: [KeyCode.SPACE],
+  [InputAction.ROTATE_CW]: [KeyCode.UP, KeyCode.W, KeyCode.X],
+  [InputAction.ROTATE_CCW]: [KeyCode.Z, KeyCode.CTRL],
+  [InputAction.HOLD]: [KeyCode.C, KeyCode.SHIFT],
+  [InputAction.PAUSE]: [KeyCode.P, KeyCode.ESCAPE],
+};
+
+/**
+ * Versus layouts - player 1 on the left of the keyboard, player 2 on the right.
+ * Pause is bound once (to player 1) because it pauses both boards.
+ */
+export const VERSUS_KEY_BINDINGS: readonly [KeyBindings, KeyBindings] = [
+  {
+    [InputAction.MOVE_LEFT]: [KeyCode.A],
+    [InputAction.MOVE_RIGHT]: [KeyCode.D],
+    [InputAction.SOFT_DROP]: [KeyCode.S],
+    [InputAction.HARD_DROP]: [KeyCode.W],
+    [InputAction.ROTATE_CW]: [KeyCode.E],
+    [InputAction.ROTATE_CCW]: [KeyCode.Q],
+    [InputAction.HOLD]: [KeyCode.F],
+    [InputAction.PAUSE]: [KeyCode.P, KeyCode.ESCAPE],
+  },
+  {
+    [InputAction.MOVE_LEFT]: [KeyCode.LEFT],
+    [InputAction.MOVE_RIGHT]: [KeyCode.RIGHT],
+    [InputAction.SOFT_DROP]: [KeyCode.DOWN],
+    [InputAction.HARD_DROP]: [KeyCode.UP],
+    [InputAction.ROTATE_CW]: [KeyCode.SLASH],
+    [InputAction.ROTATE_CCW]: [KeyCode.PERIOD],
+    [InputAction.HOLD]: [KeyCode.SHIFT_RIGHT],
+    [InputAction.PAUSE]: [],
+  },
+];
+
+/**
+ * Invert bindings into a lookup from key to action
+ */
+export function getKeyActions(bindings: KeyBindings): Map<string, InputAction> {
+  const keyActions = new Map<string, InputAction>();
+  for (const action of Object.values(InputAction)) {
+    for (const key of bindings[action]) {
+      keyActions.set(key, action);
+    }
+  }
+  return keyActions;
+}
+
+/**
+ * Copy bindings so edits never touch the defaults
+ */
+export function cloneKeyBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  for (const action of Object.values(InputAction)) {
+    copy[action] = [...bindings[action]];
+  }
+  return copy;
+}
+
+/**
+ * Get the actions (other than the given one) already bound to a key
+ */
+export function findConflicts(
+  bindings: KeyBindings,
+  key: string,
+  action: InputAction
+): InputAction[] {
+  return Object.values(InputAction).filter(
+    (other) => other !== action && bindings[other].includes(key)
+  );
+}
+
+/**
+ * Bind a key to an action, taking it away from any action it was bound to before
+ */
+export function bindKey(bindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  const updated = cloneKeyBindings(bindings);
+  for (const other of findConflicts(bindings, key, action)) {
+    updated[other] = updated[other].filter((k) => k !== key);
+  }
+  if (!updated[action].includes(key)) {
+    updated[action].push(key);
+  }
+  return updated;
+}
+
+/**
+ * Remove a key from an action
+ */
+export function unbindKey(bindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  const updated = cloneKeyBindings(bindings);
+  updated[action] = updated[action].filter((k) => k !== key);
+  return updated;
+}
+
+/**
+ * Load the player's bindings, falling back to the defaults for anything missing or invalid
+ */
+export function loadKeyBindings(preferences: Preferences): KeyBindings {
+  const stored = preferences.load(KEY_BINDINGS_PREFERENCE);
+  const bindings = cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+  if (typeof stored !== 'object' || stored === null) {
+    return bindings;
+  }
+
+  const raw = stored as Record<string, unknown>;
+  for (const action of Object.values(InputAction)) {
+    const keys = raw[action];
+    if (Array.isArray(keys) && keys.every((key) => typeof key === 'string')) {
+      bindings[action] = [...keys];
+    }
+  }
+  return bindings;
+}
+
+/**
+ * Persist the player's bindings
+ */
+export function saveKeyBindings(preferences: Preferences, bindings: KeyBindings): void {
+  preferences.save(KEY_BINDINGS_PREFERENCE, bindings);
+}
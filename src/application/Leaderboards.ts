@@ -0,0 +1,92 @@
+// Leaderboards - per-mode top score tables, persisted through ScoreStorage
+
+import {
+  ScoreEntry,
+  LeaderboardRules,
+  getLeaderboardId,
+  insertEntry,
+  compareEntries,
+} from '@domain/Leaderboard';
+import { LEADERBOARD_SIZE, MAX_PLAYER_NAME_LENGTH } from '@infrastructure/constants';
+import { ScoreStorage } from '@infrastructure/ScoreStorage';
+import { Preferences } from '@infrastructure/Preferences';
+
+const PLAYER_NAME_PREFERENCE = 'playerName';
+const DEFAULT_PLAYER_NAME = 'Player';
+
+/**
+ * Check a stored entry has every field with the right type
+ */
+function isScoreEntry(value: unknown): value is ScoreEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.name === 'string' &&
+    ['score', 'lines', 'level', 'duration', 'date', 'seed'].every(
+      (field) => typeof entry[field] === 'number' && Number.isFinite(entry[field])
+    )
+  );
+}
+
+/**
+ * Tidy a typed name - trimmed, length-capped and never empty
+ */
+export function normalizePlayerName(name: string): string {
+  return name.trim().slice(0, MAX_PLAYER_NAME_LENGTH) || DEFAULT_PLAYER_NAME;
+}
+
+export class Leaderboards {
+  // Submissions are chained so two quick saves can't overwrite each other's table
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private storage: Promise<ScoreStorage>,
+    private preferences: Preferences
+  ) {}
+
+  /**
+   * Top entries for a mode and rule set, best first (invalid stored entries are dropped)
+   */
+  public async getEntries(rules: LeaderboardRules): Promise<ScoreEntry[]> {
+    const stored = await (await this.storage).load(getLeaderboardId(rules));
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .filter(isScoreEntry)
+      .sort((a, b) => compareEntries(rules.mode, a, b))
+      .slice(0, LEADERBOARD_SIZE);
+  }
+
+  /**
+   * The rank an entry would get, without saving it (null if it wouldn't make the table)
+   */
+  public async getRank(rules: LeaderboardRules, entry: ScoreEntry): Promise<number | null> {
+    return insertEntry(rules.mode, await this.getEntries(rules), entry).rank;
+  }
+
+  /**
+   * Save an entry if it makes the table - resolves to its rank (null if it didn't)
+   */
+  public submit(rules: LeaderboardRules, entry: ScoreEntry): Promise<number | null> {
+    const submission = this.pending.then(async () => {
+      const named = { ...entry, name: normalizePlayerName(entry.name) };
+      const { entries, rank } = insertEntry(rules.mode, await this.getEntries(rules), named);
+      if (rank !== null) {
+        await (await this.storage).save(getLeaderboardId(rules), entries);
+      }
+      this.preferences.save(PLAYER_NAME_PREFERENCE, named.name);
+      return rank;
+    });
+
+    this.pending = submission.catch(() => undefined);
+    return submission;
+  }
+
+  /**
+   * The name last entered on a leaderboard
+   */
+  public getPlayerName(): string {
+    const stored = this.preferences.load(PLAYER_NAME_PREFERENCE);
+    return typeof stored === 'string' ? normalizePlayerName(stored) : DEFAULT_PLAYER_NAME;
+  }
+}
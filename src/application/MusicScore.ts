@@ -0,0 +1,101 @@
+// Music score - note data for the background music, played by the MusicSequencer
+
+/**
+ * A note on the step grid
+ */
+export interface ScoreNote {
+  step: number; // step within the loop where the note starts
+  note: number; // MIDI note number
+  length: number; // steps the note lasts
+}
+
+/**
+ * One instrument line
+ */
+export interface MusicVoice {
+  wave: OscillatorType;
+  volume: number; // peak gain (0-1)
+  notes: ScoreNote[];
+}
+
+/**
+ * A looping piece of music
+ */
+export interface MusicTrack {
+  tempo: number; // beats per minute at tempo multiplier 1
+  stepsPerBeat: number;
+  length: number; // steps in one loop
+  voices: MusicVoice[];
+}
+
+/**
+ * Lay out [note, length] pairs back to back (null is a rest)
+ */
+function sequence(phrase: [number | null, number][]): ScoreNote[] {
+  const notes: ScoreNote[] = [];
+  let step = 0;
+  for (const [note, length] of phrase) {
+    if (note !== null) {
+      notes.push({ step, note, length });
+    }
+    step += length;
+  }
+  return notes;
+}
+
+/**
+ * Octave-jumping bass: one bar of eighth notes per root
+ */
+function octaveBass(roots: number[]): ScoreNote[] {
+  const phrase: [number, number][] = [];
+  for (const root of roots) {
+    for (let beat = 0; beat < 4; beat++) {
+      phrase.push([root, 1], [root + 12, 1]);
+    }
+  }
+  return sequence(phrase);
+}
+
+// MIDI note numbers used below
+const C2 = 36;
+const D2 = 38;
+const E2 = 40;
+const A2 = 45;
+const A4 = 69;
+const B4 = 71;
+const C5 = 72;
+const D5 = 74;
+const E5 = 76;
+const F5 = 77;
+const G5 = 79;
+const A5 = 81;
+
+/**
+ * Korobeiniki (traditional) - melody over an octave bass, in eighth-note steps
+ */
+export const KOROBEINIKI: MusicTrack = {
+  tempo: 144,
+  stepsPerBeat: 2,
+  length: 64,
+  voices: [
+    {
+      wave: 'square',
+      volume: 0.12,
+      notes: sequence([
+        [E5, 2], [B4, 1], [C5, 1], [D5, 2], [C5, 1], [B4, 1],
+        [A4, 2], [A4, 1], [C5, 1], [E5, 2], [D5, 1], [C5, 1],
+        [B4, 3], [C5, 1], [D5, 2], [E5, 2],
+        [C5, 2], [A4, 2], [A4, 2], [null, 2],
+        [null, 1], [D5, 2], [F5, 1], [A5, 2], [G5, 1], [F5, 1],
+        [E5, 3], [C5, 1], [E5, 2], [D5, 1], [C5, 1],
+        [B4, 2], [B4, 1], [C5, 1], [D5, 2], [E5, 2],
+        [C5, 2], [A4, 2], [A4, 2], [null, 2],
+      ]),
+    },
+    {
+      wave: 'triangle',
+      volume: 0.2,
+      notes: octaveBass([E2, A2, E2, A2, D2, C2, E2, A2]),
+    },
+  ],
+};
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { MusicSequencer } from './MusicSequencer';
+import { MusicTrack } from './MusicScore';
+import { BackgroundMusic, getMusicTempo } from './BackgroundMusic';
+import { GameController } from './GameController';
+import { GameEvent, InputAction } from '@domain/types';
+import { AudioEngine } from '@infrastructure/AudioEngine';
+import { ManualClock } from '@infrastructure/Clock';
+import {
+  MUSIC_TEMPO_PER_LEVEL,
+  MUSIC_MAX_LEVEL_TEMPO,
+  MUSIC_DANGER_TEMPO,
+  MUSIC_DANGER_ROWS,
+  MUSIC_NOTE_LENGTH,
+} from '@infrastructure/constants';
+
+// 60 BPM at two steps per beat - half a second per step, four steps per loop
+const TRACK: MusicTrack = {
+  tempo: 60,
+  stepsPerBeat: 2,
+  length: 4,
+  voices: [
+    {
+      wave: 'square',
+      volume: 0.5,
+      notes: [
+        { step: 0, note: 60, length: 1 },
+        { step: 2, note: 64, length: 2 },
+      ],
+    },
+    { wave: 'triangle', volume: 0.5, notes: [{ step: 1, note: 48, length: 1 }] },
+  ],
+};
+
+/**
+ * Start times and notes, for comparing schedules
+ */
+function summarize(sequencer: MusicSequencer, now: number, until: number): [number, number][] {
+  return sequencer.advance(now, until).map(({ time, note }) => [time, note]);
+}
+
+describe('MusicSequencer.advance', () => {
+  it('schedules only the steps that start before the lookahead', () => {
+    const sequencer = new MusicSequencer(TRACK);
+    sequencer.start(10);
+
+    expect(summarize(sequencer, 10, 10.1)).toEqual([[10, 60]]);
+    expect(summarize(sequencer, 10.1, 10.2)).toEqual([]);
+    expect(summarize(sequencer, 10.2, 11.1)).toEqual([
+      [10.5, 48],
+      [11, 64],
+    ]);
+  });
+
+  it('loops back to the first step at the end of the track', () => {
+    const sequencer = new MusicSequencer(TRACK);
+    sequencer.start(0);
+
+    expect(summarize(sequencer, 0, 2.1).map(([, note]) => note)).toEqual([60, 48, 64, 60]);
+  });
+
+  it('skips the backlog when it falls behind', () => {
+    const sequencer = new MusicSequencer(TRACK);
+    sequencer.start(0);
+    sequencer.advance(0, 0.1);
+
+    // Frames stopped for five seconds - carry on from now with the next step
+    expect(summarize(sequencer, 5, 5.1)).toEqual([[5, 48]]);
+  });
+
+  it('schedules nothing while paused and resumes from the same step', () => {
+    const sequencer = new MusicSequencer(TRACK);
+    sequencer.start(0);
+    sequencer.advance(0, 0.1);
+    sequencer.pause();
+
+    expect(sequencer.advance(0.5, 3)).toEqual([]);
+
+    sequencer.resume(3);
+    expect(summarize(sequencer, 3, 3.1)).toEqual([[3, 48]]);
+  });
+
+  it('shortens the steps and notes when the tempo goes up', () => {
+    const sequencer = new MusicSequencer(TRACK);
+    sequencer.start(0);
+    const [normal] = sequencer.advance(0, 0.1);
+    expect(normal.tone.duration).toBeCloseTo(0.5 * MUSIC_NOTE_LENGTH);
+
+    sequencer.setTempoMultiplier(2);
+    expect(sequencer.getStepDuration()).toBeCloseTo(0.25);
+
+    // The step already queued keeps its time, the ones after it come twice as fast
+    // (step 3 is a rest, so the loop's first note follows at 1.25)
+    expect(summarize(sequencer, 0.1, 1.3)).toEqual([
+      [0.5, 48],
+      [0.75, 64],
+      [1.25, 60],
+    ]);
+  });
+});
+
+describe('getMusicTempo', () => {
+  it('speeds up with the level', () => {
+    expect(getMusicTempo(1, false)).toBe(1);
+    expect(getMusicTempo(3, false)).toBeCloseTo(1 + 2 * MUSIC_TEMPO_PER_LEVEL);
+    expect(getMusicTempo(3, false)).toBeGreaterThan(getMusicTempo(2, false));
+  });
+
+  it('stops speeding up at the maximum level tempo', () => {
+    expect(getMusicTempo(1000, false)).toBe(MUSIC_MAX_LEVEL_TEMPO);
+  });
+
+  it('speeds up further when the stack is in danger', () => {
+    expect(getMusicTempo(1, true)).toBe(MUSIC_DANGER_TEMPO);
+    expect(getMusicTempo(1000, true)).toBeCloseTo(MUSIC_MAX_LEVEL_TEMPO * MUSIC_DANGER_TEMPO);
+  });
+});
+
+describe('BackgroundMusic', () => {
+  it('follows the level and the stack height of a running game', () => {
+    const clock = new ManualClock();
+    const game = new GameController({}, clock);
+    // A locked engine reports time 0 and drops the notes - enough to drive the sequencer
+    const music = new BackgroundMusic(new AudioEngine(), clock);
+    const detach = music.attach(game.store, game.eventBus);
+
+    game.start(1);
+    expect(music.sequencer.isPlaying()).toBe(true);
+    expect(music.sequencer.getTempoMultiplier()).toBe(1);
+
+    game.eventBus.emit(GameEvent.LEVEL_UP, 5);
+    expect(music.sequencer.getTempoMultiplier()).toBe(getMusicTempo(5, false));
+
+    // Build the stack into the danger zone (a hole in each row keeps them from clearing)
+    const { board } = game.store.getState();
+    for (let y = MUSIC_DANGER_ROWS - 1; y < board.height; y++) {
+      for (let x = 1; x < board.width; x++) board.setCell(x, y, 1);
+    }
+    game.dispatcher.dispatch(InputAction.HARD_DROP);
+    expect(music.sequencer.getTempoMultiplier()).toBe(getMusicTempo(5, true));
+
+    game.pause();
+    expect(music.sequencer.isPlaying()).toBe(false);
+
+    detach();
+    game.destroy();
+  });
+
+  it('is only stopped or paused by the game it is following', () => {
+    const clock = new ManualClock();
+    const idle = new GameController({}, clock);
+    const playing = new GameController({}, clock);
+    const music = new BackgroundMusic(new AudioEngine(), clock);
+    music.attach(idle.store, idle.eventBus);
+    music.attach(playing.store, playing.eventBus);
+
+    playing.start(1);
+    // The idle game sitting in its menu keeps updating its store
+    idle.store.setState({ isDirty: true });
+    idle.eventBus.emit(GameEvent.GAME_PAUSE);
+    expect(music.sequencer.isPlaying()).toBe(true);
+
+    playing.eventBus.emit(GameEvent.LEVEL_UP, 3);
+    idle.eventBus.emit(GameEvent.LEVEL_UP, 9);
+    expect(music.sequencer.getTempoMultiplier()).toBe(getMusicTempo(3, false));
+
+    playing.stop();
+    playing.gameActions.quit();
+    expect(music.sequencer.isPlaying()).toBe(false);
+
+    idle.destroy();
+    playing.destroy();
+  });
+});
@@ -0,0 +1,130 @@
+// Music sequencer - steps through a track and schedules its notes ahead of the audio clock
+
+import { Tone, midiToFrequency } from '@infrastructure/AudioEngine';
+import { MUSIC_NOTE_LENGTH } from '@infrastructure/constants';
+import { MusicTrack, ScoreNote } from './MusicScore';
+
+/**
+ * A note ready to hand to the audio engine
+ */
+export interface ScheduledNote {
+  time: number; // audio time in seconds when the note starts
+  note: number; // MIDI note number
+  voice: number; // index of the track voice playing it
+  tone: Tone;
+}
+
+export class MusicSequencer {
+  private playing: boolean = false;
+  private step: number = 0; // next step to schedule
+  private nextStepTime: number = 0; // audio time of that step
+  private tempoMultiplier: number = 1;
+  private notesByStep: { voice: number; note: ScoreNote }[][];
+
+  constructor(private track: MusicTrack) {
+    this.notesByStep = Array.from({ length: track.length }, () => []);
+    track.voices.forEach((voice, index) => {
+      for (const note of voice.notes) {
+        this.notesByStep[note.step].push({ voice: index, note });
+      }
+    });
+  }
+
+  /**
+   * Start the track from the top at the given audio time
+   */
+  public start(time: number): void {
+    this.playing = true;
+    this.step = 0;
+    this.nextStepTime = time;
+  }
+
+  /**
+   * Stop scheduling and rewind
+   */
+  public stop(): void {
+    this.playing = false;
+    this.step = 0;
+  }
+
+  /**
+   * Stop scheduling, keeping the position
+   */
+  public pause(): void {
+    this.playing = false;
+  }
+
+  /**
+   * Carry on from the paused position at the given audio time
+   */
+  public resume(time: number): void {
+    if (this.playing) return;
+    this.playing = true;
+    this.nextStepTime = time;
+  }
+
+  /**
+   * Whether notes are being scheduled
+   */
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Speed up or slow down from the next step on (1 = the track's tempo)
+   */
+  public setTempoMultiplier(multiplier: number): void {
+    this.tempoMultiplier = multiplier;
+  }
+
+  /**
+   * Current tempo multiplier
+   */
+  public getTempoMultiplier(): number {
+    return this.tempoMultiplier;
+  }
+
+  /**
+   * Seconds per step at the current tempo
+   */
+  public getStepDuration(): number {
+    return 60 / (this.track.tempo * this.tempoMultiplier) / this.track.stepsPerBeat;
+  }
+
+  /**
+   * Schedule every step that starts before `until`. If the sequencer fell behind
+   * `now` (e.g. frames stopped), it picks up at `now` rather than playing the backlog.
+   */
+  public advance(now: number, until: number): ScheduledNote[] {
+    if (!this.playing) return [];
+
+    if (this.nextStepTime < now) {
+      this.nextStepTime = now;
+    }
+
+    const scheduled: ScheduledNote[] = [];
+    while (this.nextStepTime < until) {
+      const stepDuration = this.getStepDuration();
+
+      for (const { voice, note } of this.notesByStep[this.step]) {
+        const { wave, volume } = this.track.voices[voice];
+        scheduled.push({
+          time: this.nextStepTime,
+          note: note.note,
+          voice,
+          tone: {
+            wave,
+            frequency: midiToFrequency(note.note),
+            duration: note.length * stepDuration * MUSIC_NOTE_LENGTH,
+            attack: 0.01,
+            volume,
+          },
+        });
+      }
+
+      this.nextStepTime += stepDuration;
+      this.step = (this.step + 1) % this.track.length;
+    }
+    return scheduled;
+  }
+}
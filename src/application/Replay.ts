@@ -0,0 +1,127 @@
+// Replay format - compact, versioned log of the actions of one game
+
+import { GameSettings, GameMode, InputAction } from '@domain/types';
+import { RandomizerType } from '@infrastructure/Randomizer';
+import {
+  TICK_RATE,
+  DEFAULT_SPRINT_LINES,
+  DEFAULT_ULTRA_DURATION,
+  DEFAULT_MARATHON_LINES,
+  DEFAULT_DIG_LINES,
+} from '@infrastructure/constants';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Settings that change the simulation and must match during playback
+ */
+export type ReplayRules = Pick<
+  GameSettings,
+  | 'lockDelay'
+  | 'lockResetLimit'
+  | 'randomizer'
+  | 'mode'
+  | 'sprintLines'
+  | 'ultraDuration'
+  | 'marathonLines'
+  | 'digLines'
+>;
+
+/**
+ * A recorded game - actions are [tick, action] pairs in dispatch order
+ */
+export interface Replay {
+  version: number;
+  seed: number;
+  tickRate: number;
+  rules: ReplayRules;
+  duration: number; // total ticks recorded
+  recordedAt: string; // ISO date
+  actions: Array<[number, InputAction]>;
+}
+
+/**
+ * Serialize a replay to JSON text
+ */
+export function serializeReplay(replay: Replay): string {
+  // Infinity is not valid JSON - store an infinite reset limit as null
+  return JSON.stringify({
+    ...replay,
+    rules: {
+      ...replay.rules,
+      lockResetLimit: Number.isFinite(replay.rules.lockResetLimit)
+        ? replay.rules.lockResetLimit
+        : null,
+    },
+  });
+}
+
+/**
+ * Parse and validate replay JSON text
+ */
+export function parseReplay(text: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Replay file is malformed');
+  }
+
+  const raw = data as Record<string, unknown>;
+  if (raw.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(raw.version)}`);
+  }
+
+  if (raw.tickRate !== TICK_RATE) {
+    throw new Error(`Unsupported replay tick rate: ${String(raw.tickRate)}`);
+  }
+
+  const rules = raw.rules as Record<string, unknown> | undefined;
+  const actions = raw.actions;
+  const validActions = new Set<string>(Object.values(InputAction));
+
+  if (
+    typeof raw.seed !== 'number' ||
+    typeof raw.duration !== 'number' ||
+    !rules ||
+    typeof rules.lockDelay !== 'number' ||
+    !Object.values(RandomizerType).includes(rules.randomizer as RandomizerType) ||
+    !Array.isArray(actions) ||
+    !actions.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        typeof entry[0] === 'number' &&
+        validActions.has(entry[1] as string)
+    )
+  ) {
+    throw new Error('Replay file is malformed');
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    seed: raw.seed,
+    tickRate: TICK_RATE,
+    rules: {
+      lockDelay: rules.lockDelay,
+      lockResetLimit: typeof rules.lockResetLimit === 'number' ? rules.lockResetLimit : Infinity,
+      randomizer: rules.randomizer as RandomizerType,
+      // Mode fields are optional so early replays still load as Marathon
+      mode: Object.values(GameMode).includes(rules.mode as GameMode)
+        ? (rules.mode as GameMode)
+        : GameMode.MARATHON,
+      sprintLines: typeof rules.sprintLines === 'number' ? rules.sprintLines : DEFAULT_SPRINT_LINES,
+      ultraDuration:
+        typeof rules.ultraDuration === 'number' ? rules.ultraDuration : DEFAULT_ULTRA_DURATION,
+      marathonLines:
+        typeof rules.marathonLines === 'number' ? rules.marathonLines : DEFAULT_MARATHON_LINES,
+      digLines: typeof rules.digLines === 'number' ? rules.digLines : DEFAULT_DIG_LINES,
+    },
+    duration: raw.duration,
+    recordedAt: typeof raw.recordedAt === 'string' ? raw.recordedAt : '',
+    actions: actions as Array<[number, InputAction]>,
+  };
+}
@@ -0,0 +1,198 @@
+// Replay player - feeds recorded actions back through the dispatcher tick by tick
+
+import { Store } from '@domain/Store';
+import { GameState, GameStatus } from '@domain/types';
+import { GameActions } from '@domain/GameActions';
+import { ActionDispatcher } from './ActionDispatcher';
+import { GameLoop } from './GameLoop';
+import { Replay } from './Replay';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+export class ReplayPlayer {
+  private replay: Replay | null = null;
+  private actionIndex: number = 0;
+  private isPaused: boolean = true;
+  private speed: number = 1;
+  private seeking: boolean = false; // re-simulating ticks to reach a seek target
+  private removeTickCallback: (() => void) | null = null;
+
+  constructor(
+    private store: Store<GameState>,
+    private gameActions: GameActions,
+    private gameLoop: GameLoop,
+    private dispatcher: ActionDispatcher
+  ) {}
+
+  /**
+   * Load a replay and start playing it from the beginning
+   */
+  public load(replay: Replay): void {
+    this.replay = replay;
+    if (!this.removeTickCallback) {
+      this.removeTickCallback = this.gameLoop.onBeforeTick((tick) => this.applyActions(tick));
+    }
+    this.setSpeed(1);
+    this.isPaused = true;
+    this.restart();
+    this.gameLoop.forceRender();
+    this.play();
+  }
+
+  /**
+   * Stop playback and abandon the replayed game
+   */
+  public unload(): void {
+    if (!this.replay) return;
+
+    this.gameLoop.stop();
+    if (this.removeTickCallback) {
+      this.removeTickCallback();
+      this.removeTickCallback = null;
+    }
+    this.gameLoop.setTimeScale(1);
+    this.gameActions.quit();
+    this.replay = null;
+    this.isPaused = true;
+  }
+
+  /**
+   * Resume playback
+   */
+  public play(): void {
+    if (!this.replay || this.isFinished()) return;
+    this.isPaused = false;
+    this.gameLoop.start();
+  }
+
+  /**
+   * Pause playback (the replayed game itself is not paused)
+   */
+  public pause(): void {
+    this.isPaused = true;
+    this.gameLoop.stop();
+  }
+
+  /**
+   * Set the playback speed multiplier
+   */
+  public setSpeed(speed: number): void {
+    if (!REPLAY_SPEEDS.includes(speed)) {
+      throw new Error(`Unsupported replay speed: ${speed}`);
+    }
+    this.speed = speed;
+    this.gameLoop.setTimeScale(speed);
+  }
+
+  /**
+   * Jump to a tick - re-simulates from the start when seeking backwards
+   */
+  public seek(tick: number): void {
+    if (!this.replay) return;
+
+    const target = Math.max(0, Math.min(tick, this.replay.duration));
+    const wasPlaying = !this.isPaused;
+    this.gameLoop.stop();
+
+    this.seeking = true;
+    if (target < this.gameLoop.getTickCount() || this.store.getState().status === GameStatus.MENU) {
+      this.restart();
+    }
+
+    while (this.gameLoop.getTickCount() < target && !this.isGameEnded()) {
+      this.gameLoop.tick();
+    }
+    this.seeking = false;
+
+    this.gameLoop.forceRender();
+
+    if (wasPlaying) {
+      this.isPaused = false;
+      this.gameLoop.start();
+    }
+  }
+
+  /**
+   * Check if a replay is loaded
+   */
+  public isActive(): boolean {
+    return this.replay !== null;
+  }
+
+  /**
+   * Check if a seek is re-simulating the game (its events are not live play)
+   */
+  public isSeeking(): boolean {
+    return this.seeking;
+  }
+
+  /**
+   * Check if playback is running
+   */
+  public isPlaying(): boolean {
+    return this.replay !== null && !this.isPaused;
+  }
+
+  /**
+   * Get the current playback speed
+   */
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Get the current playback position in ticks
+   */
+  public getTick(): number {
+    return this.gameLoop.getTickCount();
+  }
+
+  /**
+   * Get the replay length in ticks
+   */
+  public getDuration(): number {
+    return this.replay ? this.replay.duration : 0;
+  }
+
+  /**
+   * Restart the replayed game from its seed
+   */
+  private restart(): void {
+    this.gameActions.quit();
+    this.gameActions.startGame(this.replay!.seed);
+    this.gameLoop.resetTicks();
+    this.actionIndex = 0;
+  }
+
+  /**
+   * Dispatch every action recorded for this tick (called before the tick runs)
+   */
+  private applyActions(tick: number): void {
+    const actions = this.replay!.actions;
+
+    while (this.actionIndex < actions.length && actions[this.actionIndex][0] <= tick) {
+      this.dispatcher.dispatch(actions[this.actionIndex][1]);
+      this.actionIndex++;
+    }
+
+    // Stop once the last recorded tick has been reached
+    if (tick >= this.replay!.duration - 1) {
+      this.pause();
+    }
+  }
+
+  /**
+   * Check if the replayed game has ended (top-out or mode goal)
+   */
+  private isGameEnded(): boolean {
+    const status = this.store.getState().status;
+    return status === GameStatus.GAME_OVER || status === GameStatus.FINISHED;
+  }
+
+  /**
+   * Check if playback reached the end of the replay
+   */
+  private isFinished(): boolean {
+    return this.gameLoop.getTickCount() >= this.replay!.duration;
+  }
+}
@@ -0,0 +1,73 @@
+// Replay recorder - logs every dispatched action with the tick it happened on
+
+import { GameSettings, InputAction } from '@domain/types';
+import { ActionDispatcher } from './ActionDispatcher';
+import { GameLoop } from './GameLoop';
+import { Replay, REPLAY_VERSION } from './Replay';
+import { TICK_RATE } from '@infrastructure/constants';
+
+export class ReplayRecorder {
+  private replay: Replay | null = null;
+  private isRecording: boolean = false;
+
+  constructor(
+    dispatcher: ActionDispatcher,
+    private gameLoop: GameLoop
+  ) {
+    dispatcher.subscribe((action) => this.record(action));
+  }
+
+  /**
+   * Start recording a new game
+   */
+  public begin(seed: number, settings: Readonly<GameSettings>): void {
+    this.replay = {
+      version: REPLAY_VERSION,
+      seed,
+      tickRate: TICK_RATE,
+      rules: {
+        lockDelay: settings.lockDelay,
+        lockResetLimit: settings.lockResetLimit,
+        randomizer: settings.randomizer,
+        mode: settings.mode,
+        sprintLines: settings.sprintLines,
+        ultraDuration: settings.ultraDuration,
+        marathonLines: settings.marathonLines,
+        digLines: settings.digLines,
+      },
+      duration: 0,
+      recordedAt: new Date().toISOString(),
+      actions: [],
+    };
+    this.isRecording = true;
+  }
+
+  /**
+   * Stop recording, keeping the log for export
+   */
+  public finish(): void {
+    if (this.replay && this.isRecording) {
+      // Include the tick in progress - the final actions are stamped with it
+      this.replay.duration = this.gameLoop.getTickCount() + 1;
+    }
+    this.isRecording = false;
+  }
+
+  /**
+   * Get the last recorded game (null if nothing was recorded)
+   */
+  public getReplay(): Replay | null {
+    if (!this.replay) return null;
+
+    const duration = this.isRecording ? this.gameLoop.getTickCount() : this.replay.duration;
+    return { ...this.replay, duration, actions: [...this.replay.actions] };
+  }
+
+  /**
+   * Append an action to the log
+   */
+  private record(action: InputAction): void {
+    if (!this.isRecording || !this.replay) return;
+    this.replay.actions.push([this.gameLoop.getTickCount(), action]);
+  }
+}
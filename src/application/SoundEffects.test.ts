@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SoundEffects } from './SoundEffects';
+import { GameController } from './GameController';
+import { AudioEngine } from '@infrastructure/AudioEngine';
+import { ManualClock } from '@infrastructure/Clock';
+
+describe('SoundEffects', () => {
+  it('stays quiet while a replay seek re-simulates the game', () => {
+    const game = new GameController({}, new ManualClock());
+    const engine = new AudioEngine();
+    const play = vi.spyOn(engine, 'play');
+    new SoundEffects(engine).attach(game.eventBus, () => game.replayPlayer.isSeeking());
+
+    game.autoplay.enable();
+    game.start(1);
+    game.step(5000);
+    const replay = game.replayRecorder.getReplay()!;
+
+    game.playReplay(replay);
+    game.replayPlayer.pause();
+    play.mockClear();
+
+    // Forwards to the end, then backwards (restarting from the seed)
+    game.replayPlayer.seek(replay.duration);
+    game.replayPlayer.seek(replay.duration / 2);
+    expect(play).not.toHaveBeenCalled();
+
+    // Normal playback is still heard
+    game.replayPlayer.play();
+    game.step(2000);
+    expect(play).toHaveBeenCalled();
+
+    game.destroy();
+  });
+});
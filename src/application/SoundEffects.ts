@@ -0,0 +1,116 @@
+// Sound effects - short synthesized sounds played in response to game events
+
+import { EventBus } from '@domain/EventBus';
+import { GameEvent, EventHandler } from '@domain/types';
+import { AudioEngine, AudioChannel, Tone, midiToFrequency } from '@infrastructure/AudioEngine';
+
+// Root note of the line clear arpeggio for a single; each extra line raises it a whole tone
+const LINE_CLEAR_ROOT = 72; // C5
+const MAJOR_ARPEGGIO = [0, 4, 7, 12];
+
+const MOVE_SOUND: Tone[] = [
+  { wave: 'square', frequency: 440, duration: 0.04, attack: 0.002, volume: 0.06 },
+];
+
+const ROTATE_SOUND: Tone[] = [
+  { wave: 'triangle', frequency: 660, endFrequency: 880, duration: 0.06, attack: 0.004, volume: 0.12 },
+];
+
+const LOCK_SOUND: Tone[] = [
+  { wave: 'triangle', frequency: 160, endFrequency: 80, duration: 0.1, attack: 0.002, volume: 0.25 },
+];
+
+const HOLD_SOUND: Tone[] = [
+  { wave: 'sine', frequency: 520, endFrequency: 780, duration: 0.08, attack: 0.005, volume: 0.15 },
+];
+
+const GARBAGE_SOUND: Tone[] = [
+  { wave: 'square', frequency: 110, endFrequency: 70, duration: 0.15, attack: 0.005, volume: 0.15 },
+];
+
+const LEVEL_UP_SOUND: Tone[] = [0, 4, 7, 12, 16].map((interval, i) => ({
+  wave: 'triangle',
+  frequency: midiToFrequency(76 + interval),
+  duration: 0.14,
+  attack: 0.005,
+  volume: 0.18,
+  delay: i * 0.07,
+}));
+
+const GAME_OVER_SOUND: Tone[] = [
+  { wave: 'sawtooth', frequency: 440, endFrequency: 55, duration: 0.9, attack: 0.01, volume: 0.2 },
+  { wave: 'square', frequency: 220, endFrequency: 40, duration: 0.9, attack: 0.01, volume: 0.1, delay: 0.05 },
+];
+
+const GAME_FINISH_SOUND: Tone[] = [0, 4, 7, 12, 7, 12].map((interval, i) => ({
+  wave: 'square',
+  frequency: midiToFrequency(72 + interval),
+  duration: i === 5 ? 0.5 : 0.12,
+  attack: 0.005,
+  volume: 0.15,
+  delay: i * 0.1,
+}));
+
+/**
+ * Arpeggio for a line clear - one note per line, pitched higher for bigger clears
+ */
+export function lineClearSound(lines: number): Tone[] {
+  const count = Math.min(Math.max(lines, 1), MAJOR_ARPEGGIO.length);
+  const root = LINE_CLEAR_ROOT + (count - 1) * 2;
+
+  return MAJOR_ARPEGGIO.slice(0, count).map((interval, i) => ({
+    wave: 'square',
+    frequency: midiToFrequency(root + interval),
+    duration: count === MAJOR_ARPEGGIO.length && i === count - 1 ? 0.35 : 0.12,
+    attack: 0.004,
+    volume: 0.15,
+    delay: i * 0.05,
+  }));
+}
+
+export class SoundEffects {
+  constructor(private engine: AudioEngine) {}
+
+  /**
+   * Play sounds for a game's events, staying quiet while `isMuted` returns true
+   * (returns a function that stops listening)
+   */
+  public attach(eventBus: EventBus, isMuted: () => boolean = () => false): () => void {
+    const play = (tones: readonly Tone[]): void => {
+      if (!isMuted()) this.play(tones);
+    };
+    const handlers: [GameEvent, EventHandler<never>][] = [
+      [
+        GameEvent.PIECE_MOVE,
+        (payload: { direction: 'left' | 'right' | 'down' }) => {
+          // Gravity moves pieces down every frame - only sideways moves click
+          if (payload.direction !== 'down') play(MOVE_SOUND);
+        },
+      ],
+      [GameEvent.PIECE_ROTATE, () => play(ROTATE_SOUND)],
+      [GameEvent.PIECE_LOCK, () => play(LOCK_SOUND)],
+      [GameEvent.HOLD_PIECE, () => play(HOLD_SOUND)],
+      [GameEvent.LINE_CLEARED, (lines: number) => play(lineClearSound(lines))],
+      [GameEvent.LEVEL_UP, () => play(LEVEL_UP_SOUND)],
+      [GameEvent.GARBAGE_RISE, () => play(GARBAGE_SOUND)],
+      [GameEvent.GAME_OVER, () => play(GAME_OVER_SOUND)],
+      [GameEvent.GAME_FINISH, () => play(GAME_FINISH_SOUND)],
+    ];
+
+    for (const [event, handler] of handlers) {
+      eventBus.on(event, handler);
+    }
+    return () => {
+      for (const [event, handler] of handlers) {
+        eventBus.off(event, handler);
+      }
+    };
+  }
+
+  /**
+   * Play a sound on the effects channel
+   */
+  private play(tones: readonly Tone[]): void {
+    this.engine.play(AudioChannel.SFX, tones);
+  }
+}
@@ -0,0 +1,166 @@
+// Touch input - drags, taps, swipes and on-screen buttons turned into the same actions as the keyboard
+
+import { InputAction } from '@domain/types';
+import {
+  TOUCH_TAP_MAX_DISTANCE,
+  TOUCH_TAP_MAX_TIME,
+  TOUCH_FLICK_VELOCITY,
+  TOUCH_HOLD_SWIPE_DISTANCE,
+} from '@infrastructure/constants';
+import { Clock } from '@infrastructure/Clock';
+import { ActionDispatcher } from './ActionDispatcher';
+import { InputHandler } from './InputHandler';
+
+type Axis = 'horizontal' | 'vertical';
+
+interface Touch {
+  startX: number;
+  startY: number;
+  startTime: number;
+  anchorX: number; // where the last column/row step was taken
+  anchorY: number;
+  axis: Axis | null; // decided once the finger leaves the tap radius
+}
+
+/**
+ * Gestures (positions in board cells, measured from the board's top-left corner):
+ * - drag sideways: one move per column dragged
+ * - drag down slowly: one soft drop per row dragged
+ * - flick down: hard drop
+ * - swipe up: hold
+ * - tap: rotate - left half counterclockwise, right half clockwise
+ * On-screen buttons behave like keys, with DAS/ARR.
+ */
+export class TouchInput {
+  private active: boolean = false;
+  private touch: Touch | null = null;
+
+  constructor(
+    private dispatcher: ActionDispatcher,
+    private inputHandler: InputHandler,
+    private clock: Clock,
+    private boardWidth: number
+  ) {}
+
+  /**
+   * Start reacting to touches
+   */
+  public start(): void {
+    this.active = true;
+  }
+
+  /**
+   * Stop reacting to touches and drop any in progress
+   */
+  public stop(): void {
+    this.active = false;
+    this.touch = null;
+  }
+
+  /**
+   * An on-screen button went down
+   */
+  public pressButton(action: InputAction): void {
+    if (!this.active) return;
+    this.inputHandler.press(`touch:${action}`, action);
+  }
+
+  /**
+   * An on-screen button was let go
+   */
+  public releaseButton(action: InputAction): void {
+    this.inputHandler.release(`touch:${action}`);
+  }
+
+  /**
+   * A finger went down on the board (only the first finger is tracked)
+   */
+  public begin(x: number, y: number): void {
+    if (!this.active || this.touch) return;
+    this.touch = {
+      startX: x,
+      startY: y,
+      startTime: this.clock.now(),
+      anchorX: x,
+      anchorY: y,
+      axis: null,
+    };
+  }
+
+  /**
+   * The finger moved - step the piece for every whole cell dragged
+   */
+  public move(x: number, y: number): void {
+    const touch = this.touch;
+    if (!touch) return;
+
+    if (touch.axis === null) {
+      const dx = x - touch.startX;
+      const dy = y - touch.startY;
+      if (Math.hypot(dx, dy) < TOUCH_TAP_MAX_DISTANCE) return;
+      touch.axis = Math.abs(dx) >= Math.abs(dy) ? 'horizontal' : 'vertical';
+    }
+
+    if (touch.axis === 'horizontal') {
+      while (x - touch.anchorX >= 1) {
+        this.dispatcher.dispatch(InputAction.MOVE_RIGHT, touch.anchorX !== touch.startX);
+        touch.anchorX += 1;
+      }
+      while (touch.anchorX - x >= 1) {
+        this.dispatcher.dispatch(InputAction.MOVE_LEFT, touch.anchorX !== touch.startX);
+        touch.anchorX -= 1;
+      }
+    } else {
+      while (y - touch.anchorY >= 1 && !this.isFlick(touch, y)) {
+        this.dispatcher.dispatch(InputAction.SOFT_DROP, touch.anchorY !== touch.startY);
+        touch.anchorY += 1;
+      }
+    }
+  }
+
+  /**
+   * The finger lifted - finish a tap or swipe
+   */
+  public end(x: number, y: number): void {
+    const touch = this.touch;
+    if (!touch) return;
+    this.move(x, y);
+    this.touch = null;
+
+    const duration = this.clock.now() - touch.startTime;
+
+    if (touch.axis === null) {
+      if (duration <= TOUCH_TAP_MAX_TIME) {
+        this.dispatcher.dispatch(
+          touch.startX < this.boardWidth / 2 ? InputAction.ROTATE_CCW : InputAction.ROTATE_CW
+        );
+      }
+      return;
+    }
+
+    if (touch.axis === 'vertical') {
+      const dy = y - touch.startY;
+      if (dy <= -TOUCH_HOLD_SWIPE_DISTANCE) {
+        this.dispatcher.dispatch(InputAction.HOLD);
+      } else if (this.isFlick(touch, y)) {
+        this.dispatcher.dispatch(InputAction.HARD_DROP);
+      }
+    }
+  }
+
+  /**
+   * The touch was interrupted (e.g. by the browser) - drop it without acting
+   */
+  public cancel(): void {
+    this.touch = null;
+  }
+
+  /**
+   * Is the finger moving down fast enough to count as a hard drop flick?
+   */
+  private isFlick(touch: Touch, y: number): boolean {
+    const dy = y - touch.startY;
+    const duration = Math.max(this.clock.now() - touch.startTime, 1);
+    return dy > 0 && dy / duration >= TOUCH_FLICK_VELOCITY;
+  }
+}
@@ -0,0 +1,105 @@
+// Versus controller - two local games side by side exchanging garbage
+
+import {
+  GameMode,
+  GameSettings,
+  GameEvent,
+  GameStatus,
+  GarbageSendPayload,
+  InputAction,
+} from '@domain/types';
+import { Clock, BrowserClock } from '@infrastructure/Clock';
+import { generateSeed } from '@infrastructure/Random';
+import { GameController } from './GameController';
+import { VERSUS_KEY_BINDINGS } from './KeyBindings';
+
+export class VersusController {
+  public readonly players: readonly [GameController, GameController];
+
+  constructor(settings: Partial<GameSettings> = {}, clock: Clock = new BrowserClock()) {
+    const versusSettings = { ...settings, mode: GameMode.VERSUS };
+    // Each player gets their own keys and the gamepad in their slot
+    this.players = [
+      new GameController(versusSettings, clock, VERSUS_KEY_BINDINGS[0], undefined, undefined, 0),
+      new GameController(versusSettings, clock, VERSUS_KEY_BINDINGS[1], undefined, undefined, 1),
+    ];
+
+    this.players.forEach((player, index) => {
+      const opponent = this.getOpponent(index);
+
+      // Attacks land in the opponent's incoming queue
+      player.eventBus.on<GarbageSendPayload>(GameEvent.GARBAGE_SEND, ({ rows }) => {
+        opponent.gameActions.receiveGarbage(rows);
+      });
+
+      // The first player to top out loses
+      player.eventBus.on(GameEvent.GAME_OVER, () => this.handleTopOut(index));
+
+      // Pausing either board pauses both
+      player.dispatcher.subscribe((action) => {
+        if (action === InputAction.PAUSE) {
+          opponent.togglePause();
+        }
+      });
+    });
+  }
+
+  /**
+   * Start both games with the same seed so each player gets the same pieces
+   */
+  public start(seed: number = generateSeed()): void {
+    this.players.forEach((player) => {
+      player.stop();
+      player.gameActions.quit();
+      player.start(seed);
+    });
+  }
+
+  /**
+   * Check whether a match is in progress (playing or paused)
+   */
+  public isActive(): boolean {
+    return this.players.some((player) => {
+      const { status } = player.store.getState();
+      return status === GameStatus.PLAYING || status === GameStatus.PAUSED;
+    });
+  }
+
+  /**
+   * Stop both games
+   */
+  public stop(): void {
+    this.players.forEach((player) => player.stop());
+  }
+
+  /**
+   * Abandon the match and return both boards to the menu
+   */
+  public quit(): void {
+    this.players.forEach((player) => {
+      player.stop();
+      player.gameActions.quit();
+    });
+  }
+
+  /**
+   * Cleanup
+   */
+  public destroy(): void {
+    this.players.forEach((player) => player.destroy());
+  }
+
+  /**
+   * End the match in the opponent's favor (loops keep running so both boards redraw)
+   */
+  private handleTopOut(loserIndex: number): void {
+    this.getOpponent(loserIndex).gameActions.win();
+  }
+
+  /**
+   * Get the other player
+   */
+  private getOpponent(index: number): GameController {
+    return this.players[1 - index];
+  }
+}
@@ -0,0 +1,59 @@
+// Versus attack table - how many garbage rows a line clear sends
+
+import { TSpinType } from './types';
+import {
+  ATTACK_VALUES,
+  TSPIN_ATTACK_VALUES,
+  TSPIN_MINI_ATTACK_VALUES,
+  BACK_TO_BACK_ATTACK,
+  COMBO_ATTACK_VALUES,
+  PERFECT_CLEAR_ATTACK,
+} from '@infrastructure/constants';
+
+/**
+ * Everything that decides the strength of an attack
+ */
+export interface AttackContext {
+  lines: number;
+  tSpin: TSpinType;
+  combo: number; // combo counter after this lock (-1 = no combo)
+  backToBack: boolean; // whether this clear continued a B2B chain
+  perfectClear: boolean;
+}
+
+/**
+ * Calculate the garbage rows sent by a lock
+ */
+export function calculateAttack(context: AttackContext): number {
+  const { lines, tSpin, combo } = context;
+  if (lines === 0) {
+    return 0;
+  }
+
+  let attack: number;
+  switch (tSpin) {
+    case TSpinType.FULL:
+      attack = TSPIN_ATTACK_VALUES[lines];
+      break;
+    case TSpinType.MINI:
+      attack = TSPIN_MINI_ATTACK_VALUES[lines] ?? TSPIN_ATTACK_VALUES[lines];
+      break;
+    default:
+      attack = ATTACK_VALUES[lines];
+      break;
+  }
+
+  if (context.backToBack) {
+    attack += BACK_TO_BACK_ATTACK;
+  }
+
+  if (combo > 0) {
+    attack += COMBO_ATTACK_VALUES[Math.min(combo, COMBO_ATTACK_VALUES.length - 1)];
+  }
+
+  if (context.perfectClear) {
+    attack += PERFECT_CLEAR_ATTACK;
+  }
+
+  return attack;
+}
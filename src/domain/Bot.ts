@@ -0,0 +1,311 @@
+// Autoplay bot - reachable placement search and heuristic board evaluation
+
+import { GameState, InputAction } from './types';
+import { Board } from '@infrastructure/Board';
+import { Piece } from '@infrastructure/Piece';
+import { SPAWN_X, SPAWN_Y } from '@infrastructure/constants';
+
+/**
+ * Heuristic weights (positive rewards, negative penalizes)
+ */
+export interface BotWeights {
+  aggregateHeight: number;
+  linesCleared: number;
+  holes: number;
+  bumpiness: number;
+  wells: number;
+}
+
+/**
+ * A final resting position and the inputs that reach it from spawn
+ */
+export interface Placement {
+  rotation: number;
+  x: number;
+  y: number;
+  path: InputAction[]; // ends with HARD_DROP
+}
+
+/**
+ * The bot's chosen placement, optionally after swapping with the hold piece
+ */
+export interface BotMove {
+  useHold: boolean;
+  placement: Placement;
+  score: number;
+}
+
+/**
+ * Lock delay bookkeeping that decides when moves and rotations stop resetting the lock
+ */
+export interface LockState {
+  lowestY: number; // lowest row reached - going below it refreshes the resets
+  resets: number; // resets used so far
+  resetLimit: number;
+  timerRunning: boolean; // the lock delay has started counting
+}
+
+interface SearchNode {
+  piece: Piece;
+  x: number;
+  y: number;
+  lock: LockState;
+  path: InputAction[];
+}
+
+const ROTATIONS = [
+  { action: InputAction.ROTATE_CW, direction: 'clockwise' },
+  { action: InputAction.ROTATE_CCW, direction: 'counterclockwise' },
+] as const;
+
+/**
+ * Find every reachable final placement with breadth-first search over moves,
+ * soft drops and SRS rotations - so tucks and kicked spins are included and
+ * each placement gets its shortest input path. Inputs that would run out the
+ * lock resets (locking the piece part way along its path) are not searched.
+ */
+export function findPlacements(
+  board: Board,
+  piece: Piece,
+  x: number,
+  y: number,
+  lock: LockState
+): Placement[] {
+  const start: SearchNode = { piece: piece.clone(), x, y, lock, path: [] };
+  if (!board.isValidPosition(start.piece, x, y)) {
+    return [];
+  }
+
+  const visited = new Set<string>([nodeKey(start)]);
+  const queue: SearchNode[] = [start];
+  const placements: Placement[] = [];
+
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    const neighbors: SearchNode[] = [];
+
+    // Shifts
+    for (const [action, dx] of [
+      [InputAction.MOVE_LEFT, -1],
+      [InputAction.MOVE_RIGHT, 1],
+    ] as const) {
+      const newX = node.x + dx;
+      if (board.isValidPosition(node.piece, newX, node.y)) {
+        const lock = resetLock(node.lock, board, node.piece, newX, node.y);
+        if (lock) {
+          neighbors.push({
+            piece: node.piece,
+            x: newX,
+            y: node.y,
+            lock,
+            path: [...node.path, action],
+          });
+        }
+      }
+    }
+
+    // One-row soft drops (a new lowest row refreshes the resets)
+    if (board.isValidPosition(node.piece, node.x, node.y + 1)) {
+      const newY = node.y + 1;
+      neighbors.push({
+        piece: node.piece,
+        x: node.x,
+        y: newY,
+        lock:
+          newY > node.lock.lowestY
+            ? { ...node.lock, lowestY: newY, resets: 0, timerRunning: false }
+            : node.lock,
+        path: [...node.path, InputAction.SOFT_DROP],
+      });
+    }
+
+    // Rotations with the same kick order GameActions.rotate uses
+    for (const { action, direction } of ROTATIONS) {
+      const kicks = node.piece.getWallKicks(direction);
+      const rotated = node.piece.clone();
+      rotated.rotate(direction);
+
+      const kick = kicks.find((k) => board.isValidPosition(rotated, node.x + k.x, node.y + k.y));
+      if (!kick) continue;
+
+      const lock = resetLock(node.lock, board, rotated, node.x + kick.x, node.y + kick.y);
+      if (lock) {
+        neighbors.push({
+          piece: rotated,
+          x: node.x + kick.x,
+          y: node.y + kick.y,
+          lock,
+          path: [...node.path, action],
+        });
+      }
+    }
+
+    for (const neighbor of neighbors) {
+      const key = nodeKey(neighbor);
+      if (!visited.has(key)) {
+        visited.add(key);
+        queue.push(neighbor);
+      }
+    }
+
+    // Resting nodes are final placements
+    if (!board.isValidPosition(node.piece, node.x, node.y + 1)) {
+      placements.push({
+        rotation: node.piece.rotation,
+        x: node.x,
+        y: node.y,
+        path: [...trimTrailingSoftDrops(node.path), InputAction.HARD_DROP],
+      });
+    }
+  }
+
+  return placements;
+}
+
+/**
+ * Score a board after a placement (higher is better)
+ */
+export function evaluateBoard(board: Board, linesCleared: number, weights: BotWeights): number {
+  const heights: number[] = [];
+  let holes = 0;
+
+  for (let x = 0; x < board.width; x++) {
+    let height = 0;
+    for (let y = 0; y < board.height; y++) {
+      if (board.getCell(x, y) !== 0) {
+        if (height === 0) {
+          height = board.height - y;
+        }
+      } else if (height > 0) {
+        holes++;
+      }
+    }
+    heights.push(height);
+  }
+
+  let aggregateHeight = 0;
+  let bumpiness = 0;
+  let wells = 0;
+
+  for (let x = 0; x < board.width; x++) {
+    aggregateHeight += heights[x];
+    if (x > 0) {
+      bumpiness += Math.abs(heights[x] - heights[x - 1]);
+    }
+
+    // Walls count as full-height neighbors
+    const left = x > 0 ? heights[x - 1] : board.height;
+    const right = x < board.width - 1 ? heights[x + 1] : board.height;
+    wells += Math.max(Math.min(left, right) - heights[x], 0);
+  }
+
+  return (
+    weights.aggregateHeight * aggregateHeight +
+    weights.linesCleared * linesCleared +
+    weights.holes * holes +
+    weights.bumpiness * bumpiness +
+    weights.wells * wells
+  );
+}
+
+/**
+ * Choose the best placement for the current piece or the piece hold would give
+ */
+export function findBestMove(state: Readonly<GameState>, weights: BotWeights): BotMove | null {
+  if (!state.currentPiece) {
+    return null;
+  }
+
+  const candidates: Array<{
+    useHold: boolean;
+    piece: Piece;
+    x: number;
+    y: number;
+    lock: LockState;
+  }> = [
+    {
+      useHold: false,
+      piece: state.currentPiece,
+      x: state.currentX,
+      y: state.currentY,
+      lock: {
+        lowestY: state.lowestY,
+        resets: state.lockResets,
+        resetLimit: state.lockResetLimit,
+        timerRunning: state.lockTimer > 0,
+      },
+    },
+  ];
+
+  // Holding swaps in the held piece, or the next piece when hold is empty
+  const holdType = state.holdPiece?.type ?? state.nextPieces[0]?.type;
+  if (state.canHold && holdType && holdType !== state.currentPiece.type) {
+    candidates.push({
+      useHold: true,
+      piece: new Piece(holdType),
+      x: SPAWN_X,
+      y: SPAWN_Y,
+      lock: { lowestY: SPAWN_Y, resets: 0, resetLimit: state.lockResetLimit, timerRunning: false },
+    });
+  }
+
+  let best: BotMove | null = null;
+
+  for (const { useHold, piece, x, y, lock } of candidates) {
+    for (const placement of findPlacements(state.board, piece, x, y, lock)) {
+      const placed = piece.clone();
+      placed.rotation = placement.rotation;
+
+      const board = state.board.clone();
+      board.placePiece(placed, placement.x, placement.y);
+      const linesCleared = board.clearLines();
+
+      const score = evaluateBoard(board, linesCleared, weights);
+      if (!best || score > best.score) {
+        best = { useHold, placement, score };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Visited-set key for a search node
+ */
+function nodeKey(node: SearchNode): string {
+  return `${node.piece.rotation},${node.x},${node.y}`;
+}
+
+/**
+ * Lock state after a move or rotation lands the piece at (x, y), mirroring
+ * GameActions - null when the piece is out of resets and locks there
+ */
+function resetLock(
+  lock: LockState,
+  board: Board,
+  piece: Piece,
+  x: number,
+  y: number
+): LockState | null {
+  const isGrounded = !board.isValidPosition(piece, x, y + 1);
+
+  // Only manipulations during an active lock delay count towards the limit
+  if (!isGrounded && !lock.timerRunning) return lock;
+
+  if (lock.resets < lock.resetLimit) {
+    return { ...lock, resets: lock.resets + 1, timerRunning: false };
+  }
+  return isGrounded ? null : lock;
+}
+
+/**
+ * Drop soft drops that a final hard drop covers anyway
+ */
+function trimTrailingSoftDrops(path: InputAction[]): InputAction[] {
+  let end = path.length;
+  while (end > 0 && path[end - 1] === InputAction.SOFT_DROP) {
+    end--;
+  }
+  return path.slice(0, end);
+}
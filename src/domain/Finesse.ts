@@ -0,0 +1,131 @@
+// Finesse - the fewest inputs that reach a placement on an empty field
+
+import { Board } from '@infrastructure/Board';
+import { Piece } from '@infrastructure/Piece';
+import { PieceType, BOARD_WIDTH, BOARD_HEIGHT, SPAWN_X, SPAWN_Y } from '@infrastructure/constants';
+
+interface FinesseNode {
+  piece: Piece;
+  x: number;
+  y: number;
+  inputs: number;
+}
+
+// Search results per piece type, keyed by the cells the dropped piece covers
+const inputTables = new Map<PieceType, Map<string, number>>();
+
+// Answers already looked up, keyed by piece type, rotation and column - the field is
+// always empty, so each placement only needs working out once
+const minimumInputCache = new Map<string, number | null>();
+
+/**
+ * Get the fewest inputs (taps, DAS to a wall and rotations - one each) that
+ * place a piece in the given rotation and column on an empty field.
+ * Rotations that cover the same cells (S, Z, I, O) count as the same placement.
+ */
+export function getMinimumInputs(type: PieceType, rotation: number, x: number): number | null {
+  const key = `${type},${rotation},${x}`;
+  const cached = minimumInputCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let table = inputTables.get(type);
+  if (!table) {
+    table = buildInputTable(type);
+    inputTables.set(type, table);
+  }
+
+  const piece = new Piece(type);
+  piece.rotation = rotation;
+  const inputs =
+    table.get(getDropKey(new Board(BOARD_WIDTH, BOARD_HEIGHT), piece, x, SPAWN_Y)) ?? null;
+  minimumInputCache.set(key, inputs);
+  return inputs;
+}
+
+/**
+ * Breadth-first search from spawn over single inputs on an empty board
+ */
+function buildInputTable(type: PieceType): Map<string, number> {
+  const board = new Board(BOARD_WIDTH, BOARD_HEIGHT);
+  const table = new Map<string, number>();
+  const start: FinesseNode = { piece: new Piece(type), x: SPAWN_X, y: SPAWN_Y, inputs: 0 };
+  const visited = new Set<string>([nodeKey(start)]);
+  const queue: FinesseNode[] = [start];
+
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+
+    const dropKey = getDropKey(board, node.piece, node.x, node.y);
+    if (!table.has(dropKey)) {
+      table.set(dropKey, node.inputs);
+    }
+
+    const neighbors: FinesseNode[] = [];
+
+    // Taps move one column
+    for (const dx of [-1, 1]) {
+      if (board.isValidPosition(node.piece, node.x + dx, node.y)) {
+        neighbors.push({ ...node, x: node.x + dx, inputs: node.inputs + 1 });
+      }
+    }
+
+    // DAS slides all the way to a wall for a single input
+    for (const dx of [-1, 1]) {
+      let x = node.x;
+      while (board.isValidPosition(node.piece, x + dx, node.y)) {
+        x += dx;
+      }
+      if (x !== node.x) {
+        neighbors.push({ ...node, x, inputs: node.inputs + 1 });
+      }
+    }
+
+    // Rotations use the same SRS kicks as the game
+    for (const direction of ['clockwise', 'counterclockwise'] as const) {
+      const kicks = node.piece.getWallKicks(direction);
+      const rotated = node.piece.clone();
+      rotated.rotate(direction);
+
+      const kick = kicks.find((k) => board.isValidPosition(rotated, node.x + k.x, node.y + k.y));
+      if (kick) {
+        neighbors.push({
+          piece: rotated,
+          x: node.x + kick.x,
+          y: node.y + kick.y,
+          inputs: node.inputs + 1,
+        });
+      }
+    }
+
+    for (const neighbor of neighbors) {
+      const key = nodeKey(neighbor);
+      if (!visited.has(key)) {
+        visited.add(key);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Identify a placement by the cells the piece covers after a hard drop
+ */
+function getDropKey(board: Board, piece: Piece, x: number, y: number): string {
+  const landingY = y + board.getHardDropDistance(piece, x, y);
+  return piece
+    .getFilledCells()
+    .map(({ row, col }) => `${x + col},${landingY + row}`)
+    .sort()
+    .join(';');
+}
+
+/**
+ * Visited-set key for a search node
+ */
+function nodeKey(node: FinesseNode): string {
+  return `${node.piece.rotation},${node.x},${node.y}`;
+}
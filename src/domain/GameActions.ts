@@ -1,33 +1,60 @@
 // Game business logic - all state mutations
 
 import { Store } from './Store';
-import { GameState, GameStatus, GameEvent } from './types';
+import {
+  GameState,
+  GameStatus,
+  GameEvent,
+  PieceRotatePayload,
+  TSpinType,
+  TSpinPayload,
+  ComboPayload,
+  BackToBackPayload,
+  PerfectClearPayload,
+  GameFinishPayload,
+  GarbageSendPayload,
+  FinishReason,
+} from './types';
 import { EventBus } from './EventBus';
+import { ScoringEngine, GuidelineScoringEngine } from './ScoringEngine';
+import { calculateAttack } from './Attack';
 import { Piece } from '@infrastructure/Piece';
 import { PieceGenerator } from '@infrastructure/PieceGenerator';
+import { RandomSource, generateSeed, mulberry32 } from '@infrastructure/Random';
+import { Clock, BrowserClock } from '@infrastructure/Clock';
 import {
+  PieceType,
   SPAWN_X,
   SPAWN_Y,
-  SCORE_VALUES,
-  SOFT_DROP_SCORE,
-  HARD_DROP_SCORE,
+  TSPIN_UPGRADE_KICK_INDEX,
+  PERFECT_CLEAR_BANNER_DURATION,
   LINES_PER_LEVEL,
   INITIAL_DROP_INTERVAL,
-  MIN_DROP_INTERVAL,
-  DROP_INTERVAL_DECREASE,
+  GRAVITY_BASE,
+  GRAVITY_DECREASE,
+  TWENTY_G_LEVEL,
+  TWENTY_G_ROWS,
+  FRAME_TIME,
+  GARBAGE_SEED_SALT,
+  SURVIVAL_MIN_RISE_INTERVAL,
+  SURVIVAL_RISE_ACCELERATION,
 } from '@infrastructure/constants';
 
 export class GameActions {
+  private garbageRandom: RandomSource = Math.random;
+
   constructor(
     private store: Store<GameState>,
     private eventBus: EventBus,
-    private pieceGenerator: PieceGenerator
+    private pieceGenerator: PieceGenerator,
+    private clock: Clock = new BrowserClock(),
+    private scoringEngine: ScoringEngine = new GuidelineScoringEngine()
   ) {}
 
   /**
-   * Start a new game
+   * Start a new game (optionally with a fixed seed for a reproducible piece sequence)
    */
-  public startGame(): void {
+  public startGame(seed: number = generateSeed()): void {
     const state = this.store.getState();
 
     if (state.status === GameStatus.PLAYING) {
@@ -35,10 +62,14 @@ export class GameActions {
     }
 
     // Reset piece generator
-    this.pieceGenerator.reset();
+    this.pieceGenerator.reset(seed);
 
-    // Reset board
+    // Reset board, then lay down the mode's starting garbage (holes follow the seed)
     state.board.clear();
+    this.garbageRandom = mulberry32((seed ^ GARBAGE_SEED_SALT) >>> 0);
+    const { garbageLines, garbageHeight } = state.modeRules;
+    const initialGarbage = Math.min(garbageLines, garbageHeight);
+    state.board.addRandomGarbageRows(initialGarbage, this.garbageRandom);
 
     // Get first piece
     const firstPiece = this.pieceGenerator.next();
@@ -52,11 +83,24 @@ export class GameActions {
       holdPiece: null,
       canHold: true,
       nextPieces,
+      seed,
       score: 0,
       lines: 0,
       level: 1,
+      elapsedTime: 0,
+      combo: -1,
+      backToBack: false,
       dropInterval: INITIAL_DROP_INTERVAL,
-      lastDropTime: Date.now(),
+      lastDropTime: this.clock.now(),
+      lockTimer: 0,
+      lockResets: 0,
+      lowestY: SPAWN_Y,
+      lastKickIndex: null,
+      garbageRemaining: garbageLines - initialGarbage,
+      incomingGarbage: 0,
+      garbageRiseTimer: 0,
+      garbageRiseInterval: state.modeRules.garbageRiseInterval,
+      perfectClearTimer: 0,
       isDirty: true,
     });
 
@@ -83,7 +127,7 @@ export class GameActions {
     if (state.status === GameStatus.PAUSED) {
       this.store.setState({
         status: GameStatus.PLAYING,
-        lastDropTime: Date.now(),
+        lastDropTime: this.clock.now(),
         isDirty: true,
       });
       this.eventBus.emit(GameEvent.GAME_RESUME);
@@ -91,69 +135,107 @@ export class GameActions {
   }
 
   /**
-   * Move piece left
+   * Abandon the current game and return to the menu
+   */
+  public quit(): void {
+    this.store.setState({
+      status: GameStatus.MENU,
+      currentPiece: null,
+      isDirty: true,
+    });
+  }
+
+  /**
+   * Move piece left - returns true if it moved
    */
-  public moveLeft(): void {
+  public moveLeft(): boolean {
     const state = this.store.getState();
-    if (!this.canMove(state)) return;
+    if (!this.canMove(state)) return false;
 
     const newX = state.currentX - 1;
     if (state.board.isValidPosition(state.currentPiece!, newX, state.currentY)) {
-      this.store.setState({ currentX: newX, isDirty: true });
+      this.store.setState({ currentX: newX, lastKickIndex: null, isDirty: true });
       this.eventBus.emit(GameEvent.PIECE_MOVE, { direction: 'left' });
+      this.resetLockDelay();
+      return true;
     }
+    return false;
   }
 
   /**
-   * Move piece right
+   * Move piece right - returns true if it moved
    */
-  public moveRight(): void {
+  public moveRight(): boolean {
     const state = this.store.getState();
-    if (!this.canMove(state)) return;
+    if (!this.canMove(state)) return false;
 
     const newX = state.currentX + 1;
     if (state.board.isValidPosition(state.currentPiece!, newX, state.currentY)) {
-      this.store.setState({ currentX: newX, isDirty: true });
+      this.store.setState({ currentX: newX, lastKickIndex: null, isDirty: true });
       this.eventBus.emit(GameEvent.PIECE_MOVE, { direction: 'right' });
+      this.resetLockDelay();
+      return true;
     }
+    return false;
   }
 
   /**
-   * Move piece down (soft drop) - returns true if moved, false if locked
+   * Move piece down (soft drop) - returns true if moved, false if grounded
    */
   public moveDown(): boolean {
     const state = this.store.getState();
     if (!this.canMove(state)) return false;
 
     const newY = state.currentY + 1;
-    if (state.board.isValidPosition(state.currentPiece!, state.currentX, newY)) {
-      this.store.setState({
-        currentY: newY,
-        lastDropTime: Date.now(),
-        isDirty: true,
-      });
-      this.eventBus.emit(GameEvent.PIECE_MOVE, { direction: 'down' });
-      return true;
-    } else {
-      // Piece can't move down, lock it
-      this.lockPiece();
+    if (!state.board.isValidPosition(state.currentPiece!, state.currentX, newY)) {
+      // Piece is resting on the stack - locking is left to the lock delay timer
       return false;
     }
+
+    // Reaching a new lowest row refreshes the lock delay and its resets
+    const isNewLowest = newY > state.lowestY;
+    this.store.setState({
+      currentY: newY,
+      lastDropTime: this.clock.now(),
+      lastKickIndex: null,
+      ...(isNewLowest && { lowestY: newY, lockTimer: 0, lockResets: 0 }),
+      isDirty: true,
+    });
+    this.eventBus.emit(GameEvent.PIECE_MOVE, { direction: 'down' });
+    return true;
   }
 
   /**
-   * Soft drop (move down with score)
+   * Advance the lock delay timer (called every frame) - locks the piece when it expires
    */
-  public softDrop(): void {
+  public updateLockDelay(deltaTime: number): void {
     const state = this.store.getState();
-    if (!this.canMove(state)) return;
+    if (!this.canMove(state) || !this.isGrounded(state)) return;
+
+    const lockTimer = state.lockTimer + deltaTime;
+    if (lockTimer >= state.lockDelay) {
+      this.lockPiece();
+      return;
+    }
+
+    this.store.setState({ lockTimer, isDirty: true });
+  }
+
+  /**
+   * Soft drop (move down with score) - returns true if the piece fell a row
+   */
+  public softDrop(): boolean {
+    const state = this.store.getState();
+    if (!this.canMove(state)) return false;
 
     if (this.moveDown()) {
       // Award soft drop points
-      const newScore = state.score + SOFT_DROP_SCORE;
+      const newScore = state.score + this.scoringEngine.scoreSoftDrop(1);
       this.store.setState({ score: newScore });
       this.eventBus.emit(GameEvent.SCORE_UPDATE, newScore);
+      return true;
     }
+    return false;
   }
 
   /**
@@ -171,11 +253,12 @@ export class GameActions {
 
     if (distance > 0) {
       const newY = state.currentY + distance;
-      const dropScore = distance * HARD_DROP_SCORE;
+      const dropScore = this.scoringEngine.scoreHardDrop(distance);
 
       this.store.setState({
         currentY: newY,
         score: state.score + dropScore,
+        lastKickIndex: null,
         isDirty: true,
       });
 
@@ -187,44 +270,31 @@ export class GameActions {
   }
 
   /**
-   * Rotate piece clockwise
+   * Rotate piece using SRS wall kicks
    */
   public rotate(direction: 'clockwise' | 'counterclockwise' = 'clockwise'): void {
     const state = this.store.getState();
     if (!this.canMove(state)) return;
 
     const piece = state.currentPiece!.clone();
+    const kicks = piece.getWallKicks(direction);
     piece.rotate(direction);
 
-    // Try basic rotation
-    if (state.board.isValidPosition(piece, state.currentX, state.currentY)) {
-      state.currentPiece!.rotate(direction);
-      this.store.setState({ isDirty: true });
-      this.eventBus.emit(GameEvent.PIECE_ROTATE, { direction });
-      return;
-    }
-
-    // Basic rotation failed - try wall kicks (simplified SRS)
-    const wallKickOffsets = [
-      { x: -1, y: 0 },
-      { x: 1, y: 0 },
-      { x: 0, y: -1 },
-      { x: -2, y: 0 },
-      { x: 2, y: 0 },
-    ];
-
-    for (const offset of wallKickOffsets) {
-      const newX = state.currentX + offset.x;
-      const newY = state.currentY + offset.y;
+    // Try each SRS kick test in order (test 0 is the basic rotation)
+    for (let kickIndex = 0; kickIndex < kicks.length; kickIndex++) {
+      const newX = state.currentX + kicks[kickIndex].x;
+      const newY = state.currentY + kicks[kickIndex].y;
 
       if (state.board.isValidPosition(piece, newX, newY)) {
         state.currentPiece!.rotate(direction);
         this.store.setState({
           currentX: newX,
           currentY: newY,
+          lastKickIndex: kickIndex,
           isDirty: true,
         });
-        this.eventBus.emit(GameEvent.PIECE_ROTATE, { direction });
+        this.eventBus.emit<PieceRotatePayload>(GameEvent.PIECE_ROTATE, { direction, kickIndex });
+        this.resetLockDelay();
         return;
       }
     }
@@ -232,6 +302,83 @@ export class GameActions {
     // Rotation failed completely - do nothing
   }
 
+  /**
+   * Advance the elapsed play time (called every tick while playing) - ends timed modes
+   */
+  public updateTimer(deltaTime: number): void {
+    const state = this.store.getState();
+    if (state.status !== GameStatus.PLAYING) return;
+
+    const { timeLimit } = state.modeRules;
+    const elapsedTime = state.elapsedTime + deltaTime;
+
+    if (timeLimit > 0 && elapsedTime >= timeLimit) {
+      this.store.setState({ elapsedTime: timeLimit });
+      this.finishGame(FinishReason.TIME_UP);
+      return;
+    }
+
+    this.store.setState({ elapsedTime });
+  }
+
+  /**
+   * Queue garbage sent by an opponent (it rises when a piece locks without clearing)
+   */
+  public receiveGarbage(rows: number): void {
+    const state = this.store.getState();
+    if (state.status !== GameStatus.PLAYING || rows <= 0) return;
+
+    this.store.setState({ incomingGarbage: state.incomingGarbage + rows, isDirty: true });
+  }
+
+  /**
+   * Win a versus game because the opponent topped out
+   */
+  public win(): void {
+    const state = this.store.getState();
+    if (state.status !== GameStatus.PLAYING && state.status !== GameStatus.PAUSED) return;
+
+    this.finishGame(FinishReason.VICTORY);
+  }
+
+  /**
+   * Queue rising garbage rows on a timer that speeds up (called every frame)
+   */
+  public updateGarbageRise(deltaTime: number): void {
+    const state = this.store.getState();
+    if (state.status !== GameStatus.PLAYING || state.garbageRiseInterval <= 0) return;
+
+    let timer = state.garbageRiseTimer + deltaTime;
+    let interval = state.garbageRiseInterval;
+    let incoming = state.incomingGarbage;
+
+    while (timer >= interval) {
+      timer -= interval;
+      incoming++;
+      interval = Math.max(interval * SURVIVAL_RISE_ACCELERATION, SURVIVAL_MIN_RISE_INTERVAL);
+    }
+
+    this.store.setState({
+      garbageRiseTimer: timer,
+      garbageRiseInterval: interval,
+      incomingGarbage: incoming,
+      isDirty: state.isDirty || incoming !== state.incomingGarbage,
+    });
+  }
+
+  /**
+   * Count down the perfect clear banner (called every frame)
+   */
+  public updatePerfectClearBanner(deltaTime: number): void {
+    const state = this.store.getState();
+    if (state.perfectClearTimer <= 0) return;
+
+    this.store.setState({
+      perfectClearTimer: Math.max(state.perfectClearTimer - deltaTime, 0),
+      isDirty: true,
+    });
+  }
+
   /**
    * Hold the current piece
    */
@@ -254,6 +401,10 @@ export class GameActions {
         holdPiece: new Piece(currentPiece.type),
         canHold: false,
         nextPieces,
+        lockTimer: 0,
+        lockResets: 0,
+        lowestY: SPAWN_Y,
+        lastKickIndex: null,
         isDirty: true,
       });
     } else {
@@ -264,6 +415,10 @@ export class GameActions {
         currentY: SPAWN_Y,
         holdPiece: new Piece(currentPiece.type),
         canHold: false,
+        lockTimer: 0,
+        lockResets: 0,
+        lowestY: SPAWN_Y,
+        lastKickIndex: null,
         isDirty: true,
       });
     }
@@ -278,6 +433,9 @@ export class GameActions {
     const state = this.store.getState();
     if (!state.currentPiece) return;
 
+    // Detect T-spins before the piece becomes part of the stack
+    const tSpin = this.detectTSpin(state);
+
     // Place piece on board
     state.board.placePiece(state.currentPiece, state.currentX, state.currentY);
 
@@ -285,10 +443,70 @@ export class GameActions {
 
     // Clear lines
     const linesCleared = state.board.clearLines();
+    const result = this.scoringEngine.scoreLock({
+      lines: linesCleared,
+      tSpin,
+      level: state.level,
+      combo: state.combo,
+      backToBack: state.backToBack,
+      perfectClear: linesCleared > 0 && state.board.isEmpty(),
+    });
+    const lineScore = result.score;
+
+    this.store.setState({ combo: result.combo, backToBack: result.backToBack });
+
+    if (tSpin !== TSpinType.NONE) {
+      this.eventBus.emit<TSpinPayload>(GameEvent.TSPIN, {
+        type: tSpin,
+        lines: linesCleared,
+        score: lineScore,
+      });
+    }
+
+    if (result.combo > 0) {
+      this.eventBus.emit<ComboPayload>(GameEvent.COMBO, {
+        combo: result.combo,
+        bonus: result.comboBonus,
+      });
+    }
+
+    if (result.backToBackBonus > 0) {
+      this.eventBus.emit<BackToBackPayload>(GameEvent.BACK_TO_BACK, {
+        lines: linesCleared,
+        tSpin,
+        bonus: result.backToBackBonus,
+      });
+    }
+
+    if (result.perfectClearBonus > 0) {
+      this.store.setState({ perfectClearTimer: PERFECT_CLEAR_BANNER_DURATION });
+      this.eventBus.emit<PerfectClearPayload>(GameEvent.PERFECT_CLEAR, {
+        lines: linesCleared,
+        bonus: result.perfectClearBonus,
+      });
+    }
+
+    // Only versus has an opponent to attack - other modes keep their queued garbage
+    if (linesCleared > 0 && state.modeRules.hasOpponent) {
+      this.sendAttack(
+        calculateAttack({
+          lines: linesCleared,
+          tSpin,
+          combo: result.combo,
+          backToBack: result.backToBack && state.backToBack,
+          perfectClear: result.perfectClearBonus > 0,
+        })
+      );
+    }
+
     if (linesCleared > 0) {
-      const lineScore = this.calculateLineScore(linesCleared, state.level);
       const newLines = state.lines + linesCleared;
-      const newLevel = Math.floor(newLines / LINES_PER_LEVEL) + 1;
+      const { goalLines, hasLeveling } = state.modeRules;
+      const reachedGoal = goalLines > 0 && newLines >= goalLines;
+
+      // The clear that reaches the goal finishes the game instead of leveling up
+      const newLevel =
+        hasLeveling && !reachedGoal ? Math.floor(newLines / LINES_PER_LEVEL) + 1 : state.level;
       const leveledUp = newLevel > state.level;
 
       this.store.setState({
@@ -304,12 +522,97 @@ export class GameActions {
       if (leveledUp) {
         this.eventBus.emit(GameEvent.LEVEL_UP, newLevel);
       }
+
+      // Reaching the mode's line goal ends the game
+      if (reachedGoal) {
+        this.finishGame(FinishReason.GOAL_REACHED);
+        return;
+      }
+    } else if (lineScore > 0) {
+      // Zero-line T-spins still score
+      this.store.setState({ score: state.score + lineScore });
+      this.eventBus.emit(GameEvent.SCORE_UPDATE, state.score + lineScore);
+    }
+
+    // Queued rows rise when a piece locks without clearing lines
+    if (linesCleared === 0 && state.incomingGarbage > 0) {
+      const rows = state.incomingGarbage;
+      this.store.setState({ incomingGarbage: 0 });
+      if (this.riseGarbage(rows)) {
+        return;
+      }
+    }
+
+    // Dig: keep the garbage topped up and finish once all of it is cleared
+    if (state.modeRules.garbageLines > 0) {
+      if (this.refillGarbage()) {
+        return;
+      }
     }
 
     // Spawn next piece
     this.spawnNextPiece();
   }
 
+  /**
+   * Cancel incoming garbage with an attack and send the rest to the opponent
+   */
+  private sendAttack(attack: number): void {
+    if (attack <= 0) return;
+
+    const state = this.store.getState();
+    const cancelled = Math.min(attack, state.incomingGarbage);
+    if (cancelled > 0) {
+      this.store.setState({ incomingGarbage: state.incomingGarbage - cancelled, isDirty: true });
+    }
+
+    this.eventBus.emit<GarbageSendPayload>(GameEvent.GARBAGE_SEND, {
+      rows: attack - cancelled,
+      cancelled,
+    });
+  }
+
+  /**
+   * Top the board back up to the mode's garbage height.
+   * Returns true if the game ended (all garbage cleared, or the rows topped out).
+   */
+  private refillGarbage(): boolean {
+    const state = this.store.getState();
+    const onBoard = state.board.countGarbageRows();
+
+    if (onBoard === 0 && state.garbageRemaining === 0) {
+      this.finishGame(FinishReason.GOAL_REACHED);
+      return true;
+    }
+
+    const rows = Math.min(state.modeRules.garbageHeight - onBoard, state.garbageRemaining);
+    if (rows <= 0) {
+      return false;
+    }
+
+    this.store.setState({ garbageRemaining: state.garbageRemaining - rows });
+    return this.riseGarbage(rows);
+  }
+
+  /**
+   * Push garbage rows up from the bottom between pieces.
+   * Returns true if the rows topped the player out.
+   */
+  private riseGarbage(rows: number): boolean {
+    const state = this.store.getState();
+    const overflow = state.board.addRandomGarbageRows(rows, this.garbageRandom);
+
+    this.store.setState({ isDirty: true });
+    this.eventBus.emit(GameEvent.GARBAGE_RISE, rows);
+
+    // Blocks pushed above the top of the board end the game even if the spawn area is clear
+    if (overflow) {
+      this.gameOver();
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Spawn the next piece
    */
@@ -330,7 +633,11 @@ export class GameActions {
       currentY: SPAWN_Y,
       canHold: true,
       nextPieces,
-      lastDropTime: Date.now(),
+      lastDropTime: this.clock.now(),
+      lockTimer: 0,
+      lockResets: 0,
+      lowestY: SPAWN_Y,
+      lastKickIndex: null,
       isDirty: true,
     });
 
@@ -350,18 +657,107 @@ export class GameActions {
   }
 
   /**
-   * Calculate score for cleared lines
+   * Detect a T-spin using the 3-corner rule (front corners decide full vs mini)
+   */
+  private detectTSpin(state: Readonly<GameState>): TSpinType {
+    const piece = state.currentPiece!;
+    if (piece.type !== PieceType.T || state.lastKickIndex === null) {
+      return TSpinType.NONE;
+    }
+
+    // The T's center sits at row 2, col 1 of its shape matrix
+    const centerX = state.currentX + 1;
+    const centerY = state.currentY + 2;
+
+    // Corners in clockwise order starting top-left
+    const corners = [
+      { x: centerX - 1, y: centerY - 1 },
+      { x: centerX + 1, y: centerY - 1 },
+      { x: centerX + 1, y: centerY + 1 },
+      { x: centerX - 1, y: centerY + 1 },
+    ].map(({ x, y }) => this.isCornerOccupied(state, x, y));
+
+    const occupiedCount = corners.filter(Boolean).length;
+    if (occupiedCount < 3) {
+      return TSpinType.NONE;
+    }
+
+    // The two corners the T points towards are the front corners for its rotation
+    const frontCorners = [corners[piece.rotation], corners[(piece.rotation + 1) % 4]];
+    if (frontCorners.every(Boolean)) {
+      return TSpinType.FULL;
+    }
+
+    // The final SRS kick test (used by T-spin triples) upgrades a mini to a full T-spin
+    return state.lastKickIndex === TSPIN_UPGRADE_KICK_INDEX ? TSpinType.FULL : TSpinType.MINI;
+  }
+
+  /**
+   * Check if a T-spin corner cell is blocked (walls and floor count as blocked)
+   */
+  private isCornerOccupied(state: Readonly<GameState>, x: number, y: number): boolean {
+    if (x < 0 || x >= state.board.width || y >= state.board.height) {
+      return true;
+    }
+    return y >= 0 && state.board.getCell(x, y) !== 0;
+  }
+
+  /**
+   * Finish the game after reaching the mode's goal or time limit
    */
-  private calculateLineScore(lines: number, level: number): number {
-    return SCORE_VALUES[lines] * level;
+  private finishGame(reason: FinishReason): void {
+    this.store.setState({
+      status: GameStatus.FINISHED,
+      currentPiece: null,
+      isDirty: true,
+    });
+
+    const state = this.store.getState();
+    this.eventBus.emit<GameFinishPayload>(GameEvent.GAME_FINISH, {
+      mode: state.mode,
+      reason,
+      elapsedTime: state.elapsedTime,
+      score: state.score,
+      lines: state.lines,
+    });
   }
 
   /**
-   * Calculate drop interval based on level
+   * Calculate drop interval (milliseconds per row) from the guideline gravity curve
    */
   private calculateDropInterval(level: number): number {
-    const interval = INITIAL_DROP_INTERVAL - (level - 1) * DROP_INTERVAL_DECREASE;
-    return Math.max(interval, MIN_DROP_INTERVAL);
+    if (level >= TWENTY_G_LEVEL) {
+      return FRAME_TIME / TWENTY_G_ROWS;
+    }
+
+    // Guideline curve in seconds per row
+    const secondsPerRow = Math.pow(GRAVITY_BASE - (level - 1) * GRAVITY_DECREASE, level - 1);
+    return secondsPerRow * 1000;
+  }
+
+  /**
+   * Reset the lock delay after a successful move or rotation (up to the reset limit)
+   */
+  private resetLockDelay(): void {
+    const state = this.store.getState();
+    const isGrounded = this.isGrounded(state);
+
+    // Only manipulations during an active lock delay count towards the limit
+    if (!isGrounded && state.lockTimer === 0) return;
+
+    if (state.lockResets < state.lockResetLimit) {
+      this.store.setState({ lockTimer: 0, lockResets: state.lockResets + 1 });
+    } else if (isGrounded) {
+      // Out of resets - the piece locks as soon as it touches the stack
+      this.lockPiece();
+    }
+  }
+
+  /**
+   * Check if the current piece is resting on the stack or floor
+   */
+  private isGrounded(state: Readonly<GameState>): boolean {
+    return !state.board.isValidPosition(state.currentPiece!, state.currentX, state.currentY + 1);
   }
 
   /**
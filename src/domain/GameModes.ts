@@ -0,0 +1,81 @@
+// Game mode rules - goals and limits that decide how a game ends
+
+import { GameMode, GameSettings, ModeRules } from './types';
+import { DIG_GARBAGE_HEIGHT, SURVIVAL_RISE_INTERVAL } from '@infrastructure/constants';
+
+/**
+ * Resolve the rules for the selected mode
+ */
+export function getModeRules(
+  settings: Pick<GameSettings, 'mode' | 'sprintLines' | 'ultraDuration' | 'marathonLines' | 'digLines'>
+): ModeRules {
+  switch (settings.mode) {
+    case GameMode.SPRINT:
+      // Sprint is a pure race - fixed level 1 gravity
+      return {
+        goalLines: settings.sprintLines,
+        timeLimit: 0,
+        hasLeveling: false,
+        garbageLines: 0,
+        garbageHeight: 0,
+        garbageRiseInterval: 0,
+        hasOpponent: false,
+      };
+    case GameMode.ULTRA:
+      // Ultra is a score attack against the clock
+      return {
+        goalLines: 0,
+        timeLimit: settings.ultraDuration,
+        hasLeveling: true,
+        garbageLines: 0,
+        garbageHeight: 0,
+        garbageRiseInterval: 0,
+        hasOpponent: false,
+      };
+    case GameMode.DIG:
+      // Dig is a race to clear every garbage row - the board is topped up as rows clear
+      return {
+        goalLines: 0,
+        timeLimit: 0,
+        hasLeveling: false,
+        garbageLines: settings.digLines,
+        garbageHeight: Math.min(settings.digLines, DIG_GARBAGE_HEIGHT),
+        garbageRiseInterval: 0,
+        hasOpponent: false,
+      };
+    case GameMode.SURVIVAL:
+      // Survival lasts until rising rows top the player out - the score is time survived
+      return {
+        goalLines: 0,
+        timeLimit: 0,
+        hasLeveling: false,
+        garbageLines: 0,
+        garbageHeight: 0,
+        garbageRiseInterval: SURVIVAL_RISE_INTERVAL,
+        hasOpponent: false,
+      };
+    case GameMode.VERSUS:
+      // Versus ends when a player tops out - garbage comes from the opponent
+      return {
+        goalLines: 0,
+        timeLimit: 0,
+        hasLeveling: false,
+        garbageLines: 0,
+        garbageHeight: 0,
+        garbageRiseInterval: 0,
+        hasOpponent: true,
+      };
+    case GameMode.MARATHON:
+    default:
+      // Endless, or finished after the goal (150 lines = the end of level 15)
+      return {
+        goalLines: settings.marathonLines,
+        timeLimit: 0,
+        hasLeveling: true,
+        garbageLines: 0,
+        garbageHeight: 0,
+        garbageRiseInterval: 0,
+        hasOpponent: false,
+      };
+  }
+}
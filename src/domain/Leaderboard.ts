@@ -0,0 +1,126 @@
+// Leaderboard rules - which table a game belongs to and how its entries are ranked
+
+import { GameMode, GameSettings } from './types';
+import {
+  LEADERBOARD_SIZE,
+  MARATHON_LINE_OPTIONS,
+  SPRINT_LINE_OPTIONS,
+  ULTRA_DURATION_OPTIONS,
+  DIG_LINE_OPTIONS,
+  DEFAULT_MARATHON_LINES,
+  DEFAULT_SPRINT_LINES,
+  DEFAULT_ULTRA_DURATION,
+  DEFAULT_DIG_LINES,
+} from '@infrastructure/constants';
+
+/**
+ * A finished game on a leaderboard
+ */
+export interface ScoreEntry {
+  name: string;
+  score: number;
+  lines: number;
+  level: number;
+  duration: number; // milliseconds played
+  date: number; // when the game ended (ms since the epoch)
+  seed: number; // piece sequence seed, so the game can be replayed
+}
+
+/**
+ * Mode and rule set a table is for
+ */
+export type LeaderboardRules = Pick<
+  GameSettings,
+  'mode' | 'sprintLines' | 'ultraDuration' | 'marathonLines' | 'digLines'
+>;
+
+/**
+ * Table id for a mode and its rule set (e.g. "SPRINT.40")
+ */
+export function getLeaderboardId(rules: LeaderboardRules): string {
+  switch (rules.mode) {
+    case GameMode.SPRINT:
+      return `${rules.mode}.${rules.sprintLines}`;
+    case GameMode.ULTRA:
+      return `${rules.mode}.${rules.ultraDuration}`;
+    case GameMode.MARATHON:
+      return `${rules.mode}.${rules.marathonLines}`;
+    case GameMode.DIG:
+      return `${rules.mode}.${rules.digLines}`;
+    default:
+      return rules.mode;
+  }
+}
+
+/**
+ * The rules of every table (Versus has none)
+ */
+export function getAllLeaderboardRules(): LeaderboardRules[] {
+  const base: LeaderboardRules = {
+    mode: GameMode.MARATHON,
+    sprintLines: DEFAULT_SPRINT_LINES,
+    ultraDuration: DEFAULT_ULTRA_DURATION,
+    marathonLines: DEFAULT_MARATHON_LINES,
+    digLines: DEFAULT_DIG_LINES,
+  };
+
+  return [
+    ...MARATHON_LINE_OPTIONS.map((marathonLines) => ({ ...base, marathonLines })),
+    ...SPRINT_LINE_OPTIONS.map((sprintLines) => ({ ...base, mode: GameMode.SPRINT, sprintLines })),
+    ...ULTRA_DURATION_OPTIONS.map((ultraDuration) => ({
+      ...base,
+      mode: GameMode.ULTRA,
+      ultraDuration,
+    })),
+    ...DIG_LINE_OPTIONS.map((digLines) => ({ ...base, mode: GameMode.DIG, digLines })),
+    { ...base, mode: GameMode.SURVIVAL },
+  ];
+}
+
+/**
+ * Whether a game that ended this way goes on the mode's leaderboard.
+ * Races (Sprint, Dig) only count when completed; Versus is never ranked.
+ */
+export function isRankedResult(mode: GameMode, finished: boolean): boolean {
+  switch (mode) {
+    case GameMode.SPRINT:
+    case GameMode.DIG:
+      return finished;
+    case GameMode.VERSUS:
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Ordering for a mode's table - negative when a ranks above b.
+ * Races rank by time, Survival by time survived, everything else by score.
+ */
+export function compareEntries(mode: GameMode, a: ScoreEntry, b: ScoreEntry): number {
+  switch (mode) {
+    case GameMode.SPRINT:
+    case GameMode.DIG:
+      return a.duration - b.duration || a.date - b.date;
+    case GameMode.SURVIVAL:
+      return b.duration - a.duration || a.date - b.date;
+    default:
+      return b.score - a.score || b.lines - a.lines || a.date - b.date;
+  }
+}
+
+/**
+ * Rank an entry into a table - returns the new top entries and the entry's 1-based
+ * rank (null if it didn't make the cut)
+ */
+export function insertEntry(
+  mode: GameMode,
+  entries: readonly ScoreEntry[],
+  entry: ScoreEntry
+): { entries: ScoreEntry[]; rank: number | null } {
+  const ranked = [...entries, entry]
+    .sort((a, b) => compareEntries(mode, a, b))
+    .slice(0, LEADERBOARD_SIZE);
+  const index = ranked.indexOf(entry);
+  return { entries: ranked, rank: index === -1 ? null : index + 1 };
+}
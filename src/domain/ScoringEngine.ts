@@ -0,0 +1,128 @@
+// Scoring rules - swappable engine for line clears, bonuses and drops
+
+import { TSpinType } from './types';
+import {
+  SCORE_VALUES,
+  TSPIN_SCORE_VALUES,
+  TSPIN_MINI_SCORE_VALUES,
+  SOFT_DROP_SCORE,
+  HARD_DROP_SCORE,
+  BACK_TO_BACK_MULTIPLIER,
+  COMBO_SCORE,
+  PERFECT_CLEAR_SCORE_VALUES,
+  PERFECT_CLEAR_B2B_TETRIS_SCORE,
+} from '@infrastructure/constants';
+
+/**
+ * Everything the engine needs to know about a single lock
+ */
+export interface LockContext {
+  lines: number;
+  tSpin: TSpinType;
+  level: number;
+  combo: number; // combo counter before this lock (-1 = no combo)
+  backToBack: boolean; // whether the B2B chain was active before this lock
+  perfectClear: boolean; // whether the lock left the board empty
+}
+
+/**
+ * Points awarded for a lock and the resulting bonus state
+ */
+export interface LockScore {
+  score: number; // total points including bonuses
+  combo: number; // combo counter after this lock (-1 = no combo)
+  comboBonus: number; // points awarded by the combo alone
+  backToBack: boolean; // whether the B2B chain is active after this lock
+  backToBackBonus: number; // points awarded by the B2B multiplier alone (0 = not a B2B clear)
+  perfectClearBonus: number; // points awarded for clearing the whole board
+}
+
+/**
+ * Scoring engine contract - GameActions delegates all point calculation here
+ */
+export interface ScoringEngine {
+  scoreLock(context: LockContext): LockScore;
+  scoreSoftDrop(cells: number): number;
+  scoreHardDrop(cells: number): number;
+}
+
+/**
+ * Guideline scoring with back-to-back and REN combo bonuses
+ */
+export class GuidelineScoringEngine implements ScoringEngine {
+  /**
+   * Score a locked piece, updating combo and back-to-back state
+   */
+  public scoreLock(context: LockContext): LockScore {
+    const { lines, tSpin, level } = context;
+    const baseScore = this.getBaseScore(lines, tSpin) * level;
+
+    if (lines === 0) {
+      // No clear: the combo ends, the B2B chain is untouched
+      return {
+        score: baseScore,
+        combo: -1,
+        comboBonus: 0,
+        backToBack: context.backToBack,
+        backToBackBonus: 0,
+        perfectClearBonus: 0,
+      };
+    }
+
+    // Tetrises and line-clearing T-spins are "difficult" and chain back-to-back
+    const isDifficult = lines === 4 || tSpin !== TSpinType.NONE;
+    const backToBackBonus =
+      isDifficult && context.backToBack ? Math.floor(baseScore * (BACK_TO_BACK_MULTIPLIER - 1)) : 0;
+
+    const combo = context.combo + 1;
+    const comboBonus = COMBO_SCORE * combo * level;
+
+    const perfectClearBonus = context.perfectClear
+      ? this.getPerfectClearScore(lines, lines === 4 && context.backToBack) * level
+      : 0;
+
+    return {
+      score: baseScore + backToBackBonus + comboBonus + perfectClearBonus,
+      combo,
+      comboBonus,
+      backToBack: isDifficult,
+      backToBackBonus,
+      perfectClearBonus,
+    };
+  }
+
+  /**
+   * Score a soft drop over the given number of cells
+   */
+  public scoreSoftDrop(cells: number): number {
+    return cells * SOFT_DROP_SCORE;
+  }
+
+  /**
+   * Score a hard drop over the given number of cells
+   */
+  public scoreHardDrop(cells: number): number {
+    return cells * HARD_DROP_SCORE;
+  }
+
+  /**
+   * Get the level-1 perfect clear bonus
+   */
+  private getPerfectClearScore(lines: number, isBackToBackTetris: boolean): number {
+    return isBackToBackTetris ? PERFECT_CLEAR_B2B_TETRIS_SCORE : PERFECT_CLEAR_SCORE_VALUES[lines];
+  }
+
+  /**
+   * Get the level-1 value of a clear
+   */
+  private getBaseScore(lines: number, tSpin: TSpinType): number {
+    switch (tSpin) {
+      case TSpinType.FULL:
+        return TSPIN_SCORE_VALUES[lines];
+      case TSpinType.MINI:
+        return TSPIN_MINI_SCORE_VALUES[lines] ?? TSPIN_SCORE_VALUES[lines];
+      default:
+        return SCORE_VALUES[lines];
+    }
+  }
+}
@@ -2,6 +2,8 @@
 
 import { Piece } from '@infrastructure/Piece';
 import { Board } from '@infrastructure/Board';
+import { RandomizerType } from '@infrastructure/Randomizer';
+import { PieceType } from '@infrastructure/constants';
 
 /**
  * Game status (Finite State Machine states)
@@ -11,6 +13,50 @@ export enum GameStatus {
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
   GAME_OVER = 'GAME_OVER',
+  FINISHED = 'FINISHED', // mode goal reached (not a top-out)
+}
+
+/**
+ * Game modes
+ */
+export enum GameMode {
+  MARATHON = 'MARATHON',
+  SPRINT = 'SPRINT',
+  ULTRA = 'ULTRA',
+  DIG = 'DIG',
+  SURVIVAL = 'SURVIVAL',
+  VERSUS = 'VERSUS',
+}
+
+/**
+ * Why a game reached GameStatus.FINISHED
+ */
+export enum FinishReason {
+  GOAL_REACHED = 'GOAL_REACHED',
+  TIME_UP = 'TIME_UP',
+  VICTORY = 'VICTORY', // the versus opponent topped out
+}
+
+/**
+ * Mode-specific rules resolved from the settings at the start of a game
+ */
+export interface ModeRules {
+  goalLines: number; // lines that finish the game (0 = no line goal)
+  timeLimit: number; // milliseconds until time's up (0 = untimed)
+  hasLeveling: boolean; // whether line clears raise the level and gravity
+  garbageLines: number; // garbage rows to dig through, finished when all are cleared (0 = none)
+  garbageHeight: number; // garbage rows kept on the board while any remain
+  garbageRiseInterval: number; // milliseconds until the first rising row is queued (0 = no rising rows)
+  hasOpponent: boolean; // whether line clears attack an opponent, cancelling incoming garbage first
+}
+
+/**
+ * T-spin classification of a locked piece
+ */
+export enum TSpinType {
+  NONE = 'NONE',
+  MINI = 'MINI',
+  FULL = 'FULL',
 }
 
 /**
@@ -21,6 +67,7 @@ export enum GameEvent {
   GAME_PAUSE = 'GAME_PAUSE',
   GAME_RESUME = 'GAME_RESUME',
   GAME_OVER = 'GAME_OVER',
+  GAME_FINISH = 'GAME_FINISH',
   PIECE_SPAWN = 'PIECE_SPAWN',
   PIECE_MOVE = 'PIECE_MOVE',
   PIECE_ROTATE = 'PIECE_ROTATE',
@@ -29,6 +76,27 @@ export enum GameEvent {
   LEVEL_UP = 'LEVEL_UP',
   SCORE_UPDATE = 'SCORE_UPDATE',
   HOLD_PIECE = 'HOLD_PIECE',
+  TSPIN = 'TSPIN',
+  COMBO = 'COMBO',
+  BACK_TO_BACK = 'BACK_TO_BACK',
+  PERFECT_CLEAR = 'PERFECT_CLEAR',
+  GARBAGE_RISE = 'GARBAGE_RISE',
+  GARBAGE_SEND = 'GARBAGE_SEND',
+  FINESSE_FAULT = 'FINESSE_FAULT',
+}
+
+/**
+ * Player actions - the unit of input that is dispatched, recorded and replayed
+ */
+export enum InputAction {
+  MOVE_LEFT = 'L',
+  MOVE_RIGHT = 'R',
+  SOFT_DROP = 'SD',
+  HARD_DROP = 'HD',
+  ROTATE_CW = 'CW',
+  ROTATE_CCW = 'CCW',
+  HOLD = 'H',
+  PAUSE = 'P',
 }
 
 /**
@@ -38,6 +106,11 @@ export interface GameState {
   // Game status
   status: GameStatus;
 
+  // Mode
+  mode: GameMode;
+  modeRules: ModeRules;
+  elapsedTime: number; // milliseconds of play (pauses excluded)
+
   // Board
   board: Board;
 
@@ -53,19 +126,128 @@ export interface GameState {
   // Next pieces preview
   nextPieces: Piece[];
 
+  // Randomizer seed for the current game (same seed = same piece sequence)
+  seed: number;
+
   // Score and statistics
   score: number;
   lines: number;
   level: number;
+  combo: number; // consecutive line-clearing locks minus one (-1 = no combo)
+  backToBack: boolean; // whether the last line clear was a Tetris or T-spin
 
   // Timing
   dropInterval: number; // milliseconds between automatic drops
   lastDropTime: number; // timestamp of last drop
 
+  // Lock delay
+  lockDelay: number; // milliseconds a grounded piece waits before locking
+  lockResetLimit: number; // max move/rotate resets per piece (Infinity = infinite)
+  lockTimer: number; // milliseconds the current piece has been grounded
+  lockResets: number; // resets used by the current piece
+  lowestY: number; // lowest row reached by the current piece (refreshes resets)
+
+  // T-spin tracking
+  lastKickIndex: number | null; // kick index of the last rotation, null if the last action was not a rotation
+
+  // Garbage
+  garbageRemaining: number; // garbage rows not yet pushed onto the board
+  incomingGarbage: number; // queued rows that rise when the next piece locks without clearing
+  garbageRiseTimer: number; // milliseconds since the last rising row was queued
+  garbageRiseInterval: number; // current milliseconds between queued rows (shrinks over time)
+
+  // Effects
+  perfectClearTimer: number; // milliseconds left to show the "ALL CLEAR" banner
+
   // Flags
   isDirty: boolean; // Whether the board needs to be re-rendered
 }
 
+/**
+ * Player-configurable game settings
+ */
+export interface GameSettings {
+  lockDelay: number;
+  lockResetLimit: number;
+  randomizer: RandomizerType;
+  previewCount: number; // 0-6 pieces shown in the next queue
+  mode: GameMode;
+  sprintLines: number; // line target for Sprint (20, 40 or 100)
+  ultraDuration: number; // time limit for Ultra in milliseconds
+  marathonLines: number; // line goal for Marathon (0 = endless)
+  digLines: number; // garbage rows to clear in Dig (10, 18 or 100)
+}
+
+/**
+ * Payload for GameEvent.PIECE_ROTATE
+ */
+export interface PieceRotatePayload {
+  direction: 'clockwise' | 'counterclockwise';
+  kickIndex: number; // index of the SRS kick test that succeeded (0 = no kick)
+}
+
+/**
+ * Payload for GameEvent.TSPIN
+ */
+export interface TSpinPayload {
+  type: TSpinType.MINI | TSpinType.FULL;
+  lines: number;
+  score: number;
+}
+
+/**
+ * Payload for GameEvent.COMBO
+ */
+export interface ComboPayload {
+  combo: number;
+  bonus: number;
+}
+
+/**
+ * Payload for GameEvent.BACK_TO_BACK
+ */
+export interface BackToBackPayload {
+  lines: number;
+  tSpin: TSpinType;
+  bonus: number;
+}
+
+/**
+ * Payload for GameEvent.PERFECT_CLEAR
+ */
+export interface PerfectClearPayload {
+  lines: number;
+  bonus: number;
+}
+
+/**
+ * Payload for GameEvent.GARBAGE_SEND
+ */
+export interface GarbageSendPayload {
+  rows: number; // rows sent to the opponent after cancelling incoming garbage
+  cancelled: number; // incoming rows cancelled by this clear
+}
+
+/**
+ * Payload for GameEvent.FINESSE_FAULT
+ */
+export interface FinesseFaultPayload {
+  piece: PieceType;
+  inputs: number; // moves and rotations actually pressed
+  minimum: number; // fewest inputs for the same placement on an empty field
+}
+
+/**
+ * Payload for GameEvent.GAME_FINISH
+ */
+export interface GameFinishPayload {
+  mode: GameMode;
+  reason: FinishReason;
+  elapsedTime: number;
+  score: number;
+  lines: number;
+}
+
 /**
  * Event handler type
  */
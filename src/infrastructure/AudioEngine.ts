@@ -0,0 +1,163 @@
+// Audio engine - a lazily created Web Audio graph with master and per-channel volume
+
+/**
+ * Mixer channels, each with its own volume under the master volume
+ */
+export enum AudioChannel {
+  SFX = 'SFX',
+  MUSIC = 'MUSIC',
+}
+
+/**
+ * A single synthesized note: an oscillator shaped by an attack/decay envelope
+ */
+export interface Tone {
+  wave: OscillatorType;
+  frequency: number; // Hz at the start of the note
+  endFrequency?: number; // Hz to glide to by the end of the note
+  duration: number; // seconds from start to silence
+  attack: number; // seconds to reach full volume
+  volume: number; // peak gain (0-1)
+  delay?: number; // seconds after now to start
+}
+
+// Gain can't ramp exponentially to zero, so envelopes fade to this instead
+const SILENCE = 0.0001;
+
+/**
+ * Frequency in Hz of a MIDI note number (69 = A4 = 440 Hz)
+ */
+export function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * Creates the AudioContext (browsers only allow it to start after a user gesture)
+ */
+export type AudioContextFactory = () => AudioContext | null;
+
+/**
+ * Browser AudioContext, or none when running headless
+ */
+function createBrowserContext(): AudioContext | null {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') {
+    return null;
+  }
+  return new window.AudioContext();
+}
+
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private channelGains: Map<AudioChannel, GainNode> = new Map();
+  private masterVolume: number = 1;
+  private channelVolumes: Map<AudioChannel, number> = new Map();
+  private muted: boolean = false;
+
+  constructor(private createContext: AudioContextFactory = createBrowserContext) {}
+
+  /**
+   * Create (or resume) the audio context - call from a user gesture handler.
+   * Sounds played before this are silently dropped.
+   */
+  public unlock(): void {
+    if (!this.context) {
+      this.context = this.createContext();
+      if (!this.context) return;
+
+      this.masterGain = this.context.createGain();
+      this.masterGain.connect(this.context.destination);
+      for (const channel of Object.values(AudioChannel)) {
+        const gain = this.context.createGain();
+        gain.connect(this.masterGain);
+        this.channelGains.set(channel, gain);
+      }
+      this.applyVolumes();
+    }
+
+    if (this.context.state === 'suspended') {
+      void this.context.resume();
+    }
+  }
+
+  /**
+   * Whether the audio context exists yet
+   */
+  public isUnlocked(): boolean {
+    return this.context !== null;
+  }
+
+  /**
+   * Current audio time in seconds (0 before unlock)
+   */
+  public now(): number {
+    return this.context ? this.context.currentTime : 0;
+  }
+
+  /**
+   * Set the master volume (0-1)
+   */
+  public setMasterVolume(volume: number): void {
+    this.masterVolume = volume;
+    this.applyVolumes();
+  }
+
+  /**
+   * Set a channel's volume (0-1)
+   */
+  public setChannelVolume(channel: AudioChannel, volume: number): void {
+    this.channelVolumes.set(channel, volume);
+    this.applyVolumes();
+  }
+
+  /**
+   * Silence everything without losing the volume levels
+   */
+  public setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyVolumes();
+  }
+
+  /**
+   * Play notes on a channel (no-op until unlocked or while muted)
+   */
+  public play(channel: AudioChannel, tones: readonly Tone[], startTime: number = this.now()): void {
+    const output = this.channelGains.get(channel);
+    if (!this.context || !output || this.muted) return;
+
+    for (const tone of tones) {
+      const start = startTime + (tone.delay ?? 0);
+      const end = start + tone.duration;
+
+      const oscillator = this.context.createOscillator();
+      oscillator.type = tone.wave;
+      oscillator.frequency.setValueAtTime(tone.frequency, start);
+      if (tone.endFrequency !== undefined) {
+        oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, end);
+      }
+
+      const envelope = this.context.createGain();
+      envelope.gain.setValueAtTime(SILENCE, start);
+      envelope.gain.exponentialRampToValueAtTime(tone.volume, start + tone.attack);
+      envelope.gain.exponentialRampToValueAtTime(SILENCE, end);
+
+      oscillator.connect(envelope);
+      envelope.connect(output);
+      oscillator.start(start);
+      oscillator.stop(end);
+    }
+  }
+
+  /**
+   * Push the volume levels into the gain nodes
+   */
+  private applyVolumes(): void {
+    if (!this.context || !this.masterGain) return;
+
+    const now = this.context.currentTime;
+    this.masterGain.gain.setValueAtTime(this.muted ? 0 : this.masterVolume, now);
+    for (const [channel, gain] of this.channelGains) {
+      gain.gain.setValueAtTime(this.channelVolumes.get(channel) ?? 1, now);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Board } from './Board';
+import { Piece } from './Piece';
+import { PieceType } from './constants';
+
+/**
+ * Fill whole rows, leaving the given column of each empty when a hole is asked for
+ */
+function fillRows(board: Board, rows: number[], holeColumn: number | null = null): void {
+  for (const y of rows) {
+    for (let x = 0; x < board.width; x++) {
+      if (x !== holeColumn) board.setCell(x, y, 1);
+    }
+  }
+}
+
+describe('Board.clearLines', () => {
+  it('clears a single line and drops the rows above it', () => {
+    const board = new Board(4, 4);
+    fillRows(board, [3]);
+    board.setCell(0, 2, 2);
+
+    expect(board.clearLines()).toBe(1);
+    expect(board.getCell(0, 3)).toBe(2);
+    expect(board.getCell(0, 2)).toBe(0);
+  });
+
+  it('clears a double into an empty board', () => {
+    const board = new Board(4, 4);
+    fillRows(board, [2, 3]);
+
+    expect(board.clearLines()).toBe(2);
+    expect(board.isEmpty()).toBe(true);
+  });
+
+  it('clears a tetris into an empty board', () => {
+    const board = new Board(10, 20);
+    fillRows(board, [16, 17, 18, 19], 0);
+    // Vertical I dropped into the well
+    const piece = new Piece(PieceType.I);
+    piece.rotate('clockwise');
+    const x = -piece.getFilledCells()[0].col;
+    board.placePiece(piece, x, board.getHardDropDistance(piece, x, 0));
+
+    expect(board.clearLines()).toBe(4);
+    expect(board.isEmpty()).toBe(true);
+  });
+
+  it('keeps the rows between split clears in order', () => {
+    const board = new Board(4, 5);
+    fillRows(board, [4, 2]);
+    board.setCell(1, 3, 3); // between the two full rows
+    board.setCell(2, 1, 4); // above both
+
+    expect(board.clearLines()).toBe(2);
+    expect(board.getCell(1, 4)).toBe(3);
+    expect(board.getCell(2, 3)).toBe(4);
+    expect(board.getCell(2, 1)).toBe(0);
+  });
+});
@@ -1,7 +1,8 @@
 // Game board with collision detection and line clearing
 
 import { Piece } from './Piece';
-import { BOARD_WIDTH, BOARD_HEIGHT } from './constants';
+import { BOARD_WIDTH, BOARD_HEIGHT, GARBAGE_CELL } from './constants';
+import { RandomSource } from './Random';
 
 export class Board {
   private grid: Uint8Array;
@@ -93,39 +94,120 @@ export class Board {
    * Clear filled lines and return the number of lines cleared
    */
   public clearLines(): number {
-    let linesCleared = 0;
-    const linesToClear: number[] = [];
+    // Compact the kept rows towards the floor in one bottom-up pass, so
+    // adjacent full rows are all removed
+    let writeY = this.height - 1;
+    for (let y = this.height - 1; y >= 0; y--) {
+      const row = this.grid.subarray(this.getIndex(0, y), this.getIndex(0, y + 1));
+      if (row.every((cell) => cell !== 0)) continue;
+
+      if (writeY !== y) {
+        this.grid.copyWithin(this.getIndex(0, writeY), this.getIndex(0, y), this.getIndex(0, y + 1));
+      }
+      writeY--;
+    }
+
+    // Everything above the last kept row is empty
+    this.grid.fill(0, 0, this.getIndex(0, writeY + 1));
+    return writeY + 1;
+  }
+
+  /**
+   * Push garbage rows up from the bottom, all with the hole in the same column.
+   * Returns true if filled cells were pushed off the top (top-out).
+   */
+  public addGarbageRows(count: number, holeColumn: number): boolean {
+    if (holeColumn < 0 || holeColumn >= this.width) {
+      throw new Error(`Garbage hole column ${holeColumn} is outside the board`);
+    }
+
+    let overflow = false;
+    for (let i = 0; i < count; i++) {
+      overflow = this.pushGarbageRow(holeColumn) || overflow;
+    }
+    return overflow;
+  }
+
+  /**
+   * Push garbage rows up from the bottom with a random hole in each row
+   * (never the same column twice in a row). Returns true on top-out.
+   */
+  public addRandomGarbageRows(count: number, random: RandomSource): boolean {
+    let overflow = false;
+    let previousHole = this.getGarbageHole(this.height - 1);
+
+    for (let i = 0; i < count; i++) {
+      let hole = Math.floor(random() * this.width);
+      if (hole === previousHole) {
+        // Shift to one of the other columns so consecutive holes never line up
+        hole = (hole + 1 + Math.floor(random() * (this.width - 1))) % this.width;
+      }
+      overflow = this.pushGarbageRow(hole) || overflow;
+      previousHole = hole;
+    }
+    return overflow;
+  }
 
-    // Find filled lines
+  /**
+   * Count rows that still contain garbage cells
+   */
+  public countGarbageRows(): number {
+    let count = 0;
     for (let y = 0; y < this.height; y++) {
-      let isFilled = true;
       for (let x = 0; x < this.width; x++) {
-        if (this.getCell(x, y) === 0) {
-          isFilled = false;
+        if (this.getCell(x, y) === GARBAGE_CELL) {
+          count++;
           break;
         }
       }
-      if (isFilled) {
-        linesToClear.push(y);
-      }
     }
+    return count;
+  }
 
-    // Clear lines from bottom to top
-    for (const lineY of linesToClear.reverse()) {
-      // Move all lines above down by 1
-      for (let y = lineY; y > 0; y--) {
-        for (let x = 0; x < this.width; x++) {
-          this.setCell(x, y, this.getCell(x, y - 1));
-        }
-      }
-      // Clear top line
-      for (let x = 0; x < this.width; x++) {
-        this.setCell(x, 0, 0);
+  /**
+   * Shift every row up by one and fill the bottom row with garbage around the hole
+   */
+  private pushGarbageRow(holeColumn: number): boolean {
+    const overflow = this.grid.subarray(0, this.width).some((cell) => cell !== 0);
+
+    this.grid.copyWithin(0, this.width);
+    const bottom = this.getIndex(0, this.height - 1);
+    this.grid.fill(GARBAGE_CELL, bottom, bottom + this.width);
+    this.grid[bottom + holeColumn] = 0;
+
+    return overflow;
+  }
+
+  /**
+   * Get the hole column of a garbage row (null if the row isn't garbage)
+   */
+  private getGarbageHole(y: number): number | null {
+    let hole: number | null = null;
+    for (let x = 0; x < this.width; x++) {
+      const cell = this.getCell(x, y);
+      if (cell === 0) {
+        if (hole !== null) return null;
+        hole = x;
+      } else if (cell !== GARBAGE_CELL) {
+        return null;
       }
-      linesCleared++;
     }
+    return hole;
+  }
 
-    return linesCleared;
+  /**
+   * Height of the stack in rows, from the floor to the highest filled cell
+   */
+  public getStackHeight(): number {
+    const topIndex = this.grid.findIndex((cell) => cell !== 0);
+    return topIndex === -1 ? 0 : this.height - Math.floor(topIndex / this.width);
+  }
+
+  /**
+   * Check if the board has no filled cells (perfect clear)
+   */
+  public isEmpty(): boolean {
+    return this.grid.every((cell) => cell === 0);
   }
 
   /**
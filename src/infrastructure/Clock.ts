@@ -0,0 +1,67 @@
+// Clock abstraction - lets the engine run on browser frames or on manual ticks
+
+/**
+ * Time source and frame scheduler
+ */
+export interface Clock {
+  now(): number;
+  requestFrame(callback: (time: number) => void): number;
+  cancelFrame(id: number): void;
+}
+
+/**
+ * Browser clock backed by performance.now and requestAnimationFrame
+ */
+export class BrowserClock implements Clock {
+  public now(): number {
+    return performance.now();
+  }
+
+  public requestFrame(callback: (time: number) => void): number {
+    return requestAnimationFrame(callback);
+  }
+
+  public cancelFrame(id: number): void {
+    cancelAnimationFrame(id);
+  }
+}
+
+/**
+ * Manual clock - time only moves when advance() is called (headless runs, tests)
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private nextId: number = 1;
+  private callbacks: Map<number, (time: number) => void>;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+    this.callbacks = new Map();
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public requestFrame(callback: (time: number) => void): number {
+    const id = this.nextId++;
+    this.callbacks.set(id, callback);
+    return id;
+  }
+
+  public cancelFrame(id: number): void {
+    this.callbacks.delete(id);
+  }
+
+  /**
+   * Move time forward and run the frame callbacks that were pending
+   */
+  public advance(ms: number): void {
+    this.time += ms;
+
+    // Callbacks requested while running belong to the next frame
+    const pending = [...this.callbacks.values()];
+    this.callbacks.clear();
+    pending.forEach((callback) => callback(this.time));
+  }
+}
@@ -0,0 +1,65 @@
+// Personal best records persisted in localStorage
+
+const STORAGE_PREFIX = 'tetris.pb.';
+
+export class PersonalBests {
+  constructor(private storage: Storage | null = PersonalBests.getDefaultStorage()) {}
+
+  /**
+   * Get localStorage if it is available (private mode and headless runs may not have it)
+   */
+  private static getDefaultStorage(): Storage | null {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the best Sprint time for a line target (null if none recorded)
+   */
+  public getSprintBest(lines: number): number | null {
+    return this.read(`sprint.${lines}`);
+  }
+
+  /**
+   * Record a Sprint time - returns true if it is a new personal best
+   */
+  public submitSprintTime(lines: number, time: number): boolean {
+    const best = this.getSprintBest(lines);
+    if (best !== null && best <= time) {
+      return false;
+    }
+    this.write(`sprint.${lines}`, time);
+    return true;
+  }
+
+  /**
+   * Read a numeric record
+   */
+  private read(key: string): number | null {
+    if (!this.storage) return null;
+
+    try {
+      const value = this.storage.getItem(STORAGE_PREFIX + key);
+      const parsed = value === null ? NaN : Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a numeric record (storage failures are ignored)
+   */
+  private write(key: string, value: number): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(STORAGE_PREFIX + key, value.toString());
+    } catch (error) {
+      console.error('Failed to save personal best:', error);
+    }
+  }
+}
@@ -1,6 +1,6 @@
 // Tetromino piece with rotation system
 
-import { PieceType, PIECE_SHAPES, PIECE_COLORS } from './constants';
+import { PieceType, PIECE_SHAPES, PIECE_COLORS, PIECE_WALL_KICKS } from './constants';
 
 export class Piece {
   public readonly type: PieceType;
@@ -46,6 +46,17 @@ export class Piece {
     return this.shapes[nextRotation];
   }
 
+  /**
+   * Get the SRS kick tests for rotating from the current rotation state
+   */
+  public getWallKicks(
+    direction: 'clockwise' | 'counterclockwise' = 'clockwise'
+  ): ReadonlyArray<{ x: number; y: number }> {
+    const nextRotation =
+      direction === 'clockwise' ? (this.rotation + 1) % 4 : (this.rotation + 3) % 4;
+    return PIECE_WALL_KICKS[this.type][`${this.rotation}>${nextRotation}`];
+  }
+
   /**
    * Clone the piece
    */
@@ -1,15 +1,20 @@
-// 7-bag piece generator for fair random distribution
+// Piece generator - fills the preview queue from a pluggable randomizer
 
 import { Piece } from './Piece';
-import { PieceType } from './constants';
+import { RandomFactory, mulberry32, generateSeed } from './Random';
+import { Randomizer, BagRandomizer } from './Randomizer';
 
 export class PieceGenerator {
-  private bag: PieceType[] = [];
   private preview: Piece[] = [];
-  private readonly previewCount: number;
+  private previewCount: number;
 
-  constructor(previewCount: number = 1) {
+  constructor(
+    previewCount: number = 1,
+    private randomizer: Randomizer = new BagRandomizer(),
+    private randomFactory: RandomFactory = mulberry32
+  ) {
     this.previewCount = previewCount;
+    this.randomizer.reset(randomFactory(generateSeed()));
     // Fill initial preview queue
     for (let i = 0; i < previewCount; i++) {
       this.preview.push(this.generatePiece());
@@ -20,9 +25,9 @@ export class PieceGenerator {
    * Get the next piece and refill the preview queue
    */
   public next(): Piece {
-    const piece = this.preview.shift()!;
+    // Push before shifting so an empty (0-piece) preview still yields a piece
     this.preview.push(this.generatePiece());
-    return piece;
+    return this.preview.shift()!;
   }
 
   /**
@@ -33,41 +38,31 @@ export class PieceGenerator {
   }
 
   /**
-   * Generate a piece using 7-bag algorithm
+   * Generate a piece using the randomizer strategy
    */
   private generatePiece(): Piece {
-    if (this.bag.length === 0) {
-      this.refillBag();
-    }
-    const type = this.bag.pop()!;
-    return new Piece(type);
+    return new Piece(this.randomizer.next());
   }
 
   /**
-   * Refill the bag with all 7 piece types in random order (Fisher-Yates shuffle)
+   * Swap the randomizer strategy (takes effect on the next reset)
    */
-  private refillBag(): void {
-    const pieces = Object.values(PieceType);
-    this.bag = this.shuffleArray(pieces);
+  public setRandomizer(randomizer: Randomizer): void {
+    this.randomizer = randomizer;
   }
 
   /**
-   * Fisher-Yates shuffle algorithm
+   * Change the preview queue length (takes effect on the next reset)
    */
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  public setPreviewCount(previewCount: number): void {
+    this.previewCount = previewCount;
   }
 
   /**
-   * Reset the generator
+   * Reset the generator, reseeding it so the same seed yields the same sequence
    */
-  public reset(): void {
-    this.bag = [];
+  public reset(seed: number): void {
+    this.randomizer.reset(this.randomFactory(seed));
     this.preview = [];
     for (let i = 0; i < this.previewCount; i++) {
       this.preview.push(this.generatePiece());
@@ -0,0 +1,58 @@
+// Player preferences persisted in localStorage as JSON
+
+const STORAGE_PREFIX = 'tetris.prefs.';
+
+export class Preferences {
+  constructor(private storage: Storage | null = Preferences.getDefaultStorage()) {}
+
+  /**
+   * Get localStorage if it is available (private mode and headless runs may not have it)
+   */
+  private static getDefaultStorage(): Storage | null {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read a stored preference (null if missing or unreadable - callers validate the shape)
+   */
+  public load(key: string): unknown {
+    if (!this.storage) return null;
+
+    try {
+      const value = this.storage.getItem(STORAGE_PREFIX + key);
+      return value === null ? null : JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a preference (storage failures are ignored)
+   */
+  public save(key: string, value: unknown): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      console.error('Failed to save preference:', error);
+    }
+  }
+
+  /**
+   * Forget a stored preference
+   */
+  public remove(key: string): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.removeItem(STORAGE_PREFIX + key);
+    } catch (error) {
+      console.error('Failed to remove preference:', error);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+// Seedable pseudo-random number generators - deterministic across browsers
+
+/**
+ * A source of uniformly distributed numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a random source from a 32-bit seed
+ */
+export type RandomFactory = (seed: number) => RandomSource;
+
+/**
+ * Mulberry32 PRNG - 32-bit integer math only, so sequences are identical everywhere
+ */
+export function mulberry32(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh unsigned 32-bit seed for unseeded games
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
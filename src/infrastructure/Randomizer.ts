@@ -0,0 +1,164 @@
+// Piece randomizer strategies - decide which piece type comes next
+
+import { PieceType } from './constants';
+import { RandomSource } from './Random';
+
+/**
+ * Available randomizer strategies
+ */
+export enum RandomizerType {
+  BAG_7 = 'BAG_7',
+  BAG_14 = 'BAG_14',
+  RANDOM = 'RANDOM',
+  NES = 'NES',
+  TGM = 'TGM',
+}
+
+/**
+ * Randomizer strategy contract
+ */
+export interface Randomizer {
+  next(): PieceType;
+  reset(random: RandomSource): void;
+}
+
+const ALL_PIECES = Object.values(PieceType);
+
+/**
+ * Pick a uniformly random element
+ */
+function pick<T>(items: readonly T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Bag randomizer - deals every piece type `copies` times before refilling
+ */
+export class BagRandomizer implements Randomizer {
+  private bag: PieceType[] = [];
+  private random: RandomSource = Math.random;
+
+  constructor(private readonly copies: number = 1) {}
+
+  public next(): PieceType {
+    if (this.bag.length === 0) {
+      this.refillBag();
+    }
+    return this.bag.pop()!;
+  }
+
+  public reset(random: RandomSource): void {
+    this.random = random;
+    this.bag = [];
+  }
+
+  /**
+   * Refill the bag with all piece types in random order (Fisher-Yates shuffle)
+   */
+  private refillBag(): void {
+    const pieces: PieceType[] = [];
+    for (let i = 0; i < this.copies; i++) {
+      pieces.push(...ALL_PIECES);
+    }
+
+    for (let i = pieces.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [pieces[i], pieces[j]] = [pieces[j], pieces[i]];
+    }
+    this.bag = pieces;
+  }
+}
+
+/**
+ * Pure random - every piece type is equally likely, no memory
+ */
+export class PureRandomizer implements Randomizer {
+  private random: RandomSource = Math.random;
+
+  public next(): PieceType {
+    return pick(ALL_PIECES, this.random);
+  }
+
+  public reset(random: RandomSource): void {
+    this.random = random;
+  }
+}
+
+/**
+ * NES-style randomizer - rerolls once when the roll repeats the previous piece
+ */
+export class NesRandomizer implements Randomizer {
+  private random: RandomSource = Math.random;
+  private previous: PieceType | null = null;
+
+  public next(): PieceType {
+    let type = pick(ALL_PIECES, this.random);
+    if (type === this.previous) {
+      type = pick(ALL_PIECES, this.random);
+    }
+    this.previous = type;
+    return type;
+  }
+
+  public reset(random: RandomSource): void {
+    this.random = random;
+    this.previous = null;
+  }
+}
+
+/**
+ * TGM-style randomizer - rerolls up to 6 times to avoid the last 4 pieces
+ */
+export class TgmRandomizer implements Randomizer {
+  private static readonly ROLLS = 6;
+  // The first piece is never S, Z or O
+  private static readonly FIRST_PIECES = [PieceType.I, PieceType.J, PieceType.L, PieceType.T];
+
+  private random: RandomSource = Math.random;
+  private history: PieceType[] = [];
+  private isFirst = true;
+
+  public next(): PieceType {
+    let type: PieceType;
+
+    if (this.isFirst) {
+      this.isFirst = false;
+      type = pick(TgmRandomizer.FIRST_PIECES, this.random);
+    } else {
+      type = pick(ALL_PIECES, this.random);
+      for (let roll = 1; roll < TgmRandomizer.ROLLS && this.history.includes(type); roll++) {
+        type = pick(ALL_PIECES, this.random);
+      }
+    }
+
+    this.history.shift();
+    this.history.push(type);
+    return type;
+  }
+
+  public reset(random: RandomSource): void {
+    this.random = random;
+    // History of 4 starts filled with S and Z so early snakes are unlikely
+    this.history = [PieceType.Z, PieceType.S, PieceType.Z, PieceType.S];
+    this.isFirst = true;
+  }
+}
+
+/**
+ * Create a randomizer for the given strategy
+ */
+export function createRandomizer(type: RandomizerType): Randomizer {
+  switch (type) {
+    case RandomizerType.BAG_14:
+      return new BagRandomizer(2);
+    case RandomizerType.RANDOM:
+      return new PureRandomizer();
+    case RandomizerType.NES:
+      return new NesRandomizer();
+    case RandomizerType.TGM:
+      return new TgmRandomizer();
+    case RandomizerType.BAG_7:
+    default:
+      return new BagRandomizer(1);
+  }
+}
@@ -0,0 +1,123 @@
+// Score storage - leaderboard tables kept in IndexedDB, or localStorage where IndexedDB is unavailable
+
+const DATABASE_NAME = 'tetris';
+const DATABASE_VERSION = 1;
+const TABLE_STORE = 'leaderboards';
+const STORAGE_PREFIX = 'tetris.scores.';
+
+/**
+ * Persists leaderboard tables by id (entries come back as stored - callers validate the shape)
+ */
+export interface ScoreStorage {
+  load(table: string): Promise<unknown>;
+  save(table: string, entries: unknown[]): Promise<void>;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Tables stored as { id, entries } records in an IndexedDB object store
+ */
+export class IndexedDbScoreStorage implements ScoreStorage {
+  private constructor(private database: IDBDatabase) {}
+
+  /**
+   * Open (or create) the database - rejects where IndexedDB is unavailable or blocked
+   */
+  public static async open(
+    factory: IDBFactory | undefined = globalThis.indexedDB
+  ): Promise<IndexedDbScoreStorage> {
+    if (!factory) {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const request = factory.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(TABLE_STORE, { keyPath: 'id' });
+    };
+    const opened = toPromise(request);
+    // Another tab holding an older version blocks the upgrade indefinitely - give up instead
+    const blocked = new Promise<never>((_, reject) => {
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+    try {
+      return new IndexedDbScoreStorage(await Promise.race([opened, blocked]));
+    } catch (error) {
+      // If the blocked open completes later, don't keep the unused connection around
+      opened.then((database) => database.close()).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  public async load(table: string): Promise<unknown> {
+    const store = this.database.transaction(TABLE_STORE, 'readonly').objectStore(TABLE_STORE);
+    const record: unknown = await toPromise(store.get(table));
+    return typeof record === 'object' && record !== null
+      ? (record as { entries?: unknown }).entries
+      : null;
+  }
+
+  public async save(table: string, entries: unknown[]): Promise<void> {
+    const store = this.database.transaction(TABLE_STORE, 'readwrite').objectStore(TABLE_STORE);
+    await toPromise(store.put({ id: table, entries }));
+  }
+}
+
+/**
+ * Tables stored as JSON in localStorage (nothing is kept if that is unavailable too)
+ */
+export class LocalScoreStorage implements ScoreStorage {
+  constructor(private storage: Storage | null = LocalScoreStorage.getDefaultStorage()) {}
+
+  /**
+   * Get localStorage if it is available (private mode and headless runs may not have it)
+   */
+  private static getDefaultStorage(): Storage | null {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  public async load(table: string): Promise<unknown> {
+    if (!this.storage) return null;
+
+    try {
+      const value = this.storage.getItem(STORAGE_PREFIX + table);
+      return value === null ? null : JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  public async save(table: string, entries: unknown[]): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(STORAGE_PREFIX + table, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to save leaderboard:', error);
+    }
+  }
+}
+
+/**
+ * Use IndexedDB when it opens, otherwise fall back to localStorage
+ */
+export async function openScoreStorage(): Promise<ScoreStorage> {
+  try {
+    return await IndexedDbScoreStorage.open();
+  } catch (error) {
+    console.warn('IndexedDB unavailable, keeping scores in localStorage:', error);
+    return new LocalScoreStorage();
+  }
+}
@@ -238,6 +238,58 @@ export const PIECE_SHAPES: Record<PieceType, number[][][]> = {
   ],
 };
 
+// SRS wall kick data, keyed by rotation transition ("from>to", 0 = spawn, 1 = R, 2 = 2, 3 = L)
+// Offsets are in board coordinates (positive y is down). Test 0 is the unkicked rotation.
+export type WallKickTable = Record<string, ReadonlyArray<{ x: number; y: number }>>;
+
+export const WALL_KICKS_JLSTZ: WallKickTable = {
+  '0>1': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
+  '1>0': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
+  '1>2': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
+  '2>1': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
+  '2>3': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
+  '3>2': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
+  '3>0': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
+  '0>3': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
+};
+
+export const WALL_KICKS_I: WallKickTable = {
+  '0>1': [{ x: 0, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 1 }, { x: 1, y: -2 }],
+  '1>0': [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: -1 }, { x: -1, y: 2 }],
+  '1>2': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: -2 }, { x: 2, y: 1 }],
+  '2>1': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 2 }, { x: -2, y: -1 }],
+  '2>3': [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: -1 }, { x: -1, y: 2 }],
+  '3>2': [{ x: 0, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 1 }, { x: 1, y: -2 }],
+  '3>0': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 2 }, { x: -2, y: -1 }],
+  '0>3': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: -2 }, { x: 2, y: 1 }],
+};
+
+// O piece never kicks - only the in-place rotation is tested
+export const WALL_KICKS_O: WallKickTable = {
+  '0>1': [{ x: 0, y: 0 }],
+  '1>0': [{ x: 0, y: 0 }],
+  '1>2': [{ x: 0, y: 0 }],
+  '2>1': [{ x: 0, y: 0 }],
+  '2>3': [{ x: 0, y: 0 }],
+  '3>2': [{ x: 0, y: 0 }],
+  '3>0': [{ x: 0, y: 0 }],
+  '0>3': [{ x: 0, y: 0 }],
+};
+
+export const PIECE_WALL_KICKS: Record<PieceType, WallKickTable> = {
+  [PieceType.I]: WALL_KICKS_I,
+  [PieceType.O]: WALL_KICKS_O,
+  [PieceType.T]: WALL_KICKS_JLSTZ,
+  [PieceType.S]: WALL_KICKS_JLSTZ,
+  [PieceType.Z]: WALL_KICKS_JLSTZ,
+  [PieceType.J]: WALL_KICKS_JLSTZ,
+  [PieceType.L]: WALL_KICKS_JLSTZ,
+};
+
+// Next queue
+export const NEXT_PREVIEW_COUNT = 5; // default number of preview pieces
+export const MAX_PREVIEW_COUNT = 6;
+
 // Initial spawn position
 export const SPAWN_X = Math.floor(BOARD_WIDTH / 2) - 2; // Center horizontally
 export const SPAWN_Y = 0;
@@ -251,18 +303,172 @@ export const SCORE_VALUES: Record<number, number> = {
   4: 800, // Tetris
 };
 
+// T-spin scoring (indexed by lines cleared, multiplied by level)
+export const TSPIN_SCORE_VALUES: Record<number, number> = {
+  0: 400, // T-Spin
+  1: 800, // T-Spin Single
+  2: 1200, // T-Spin Double
+  3: 1600, // T-Spin Triple
+};
+
+export const TSPIN_MINI_SCORE_VALUES: Record<number, number> = {
+  0: 100, // T-Spin Mini
+  1: 200, // T-Spin Mini Single
+  2: 400, // T-Spin Mini Double
+};
+
+// A mini T-spin that used the last kick test counts as a full T-spin
+export const TSPIN_UPGRADE_KICK_INDEX = 4;
+
+// Bonuses
+export const BACK_TO_BACK_MULTIPLIER = 1.5; // consecutive Tetrises / T-spin clears
+export const COMBO_SCORE = 50; // REN bonus: 50 x combo x level
+
+// Perfect clear bonus (indexed by lines cleared, multiplied by level)
+export const PERFECT_CLEAR_SCORE_VALUES: Record<number, number> = {
+  1: 800, // Single
+  2: 1200, // Double
+  3: 1800, // Triple
+  4: 2000, // Tetris
+};
+export const PERFECT_CLEAR_B2B_TETRIS_SCORE = 3200;
+export const PERFECT_CLEAR_BANNER_DURATION = 2000; // milliseconds
+
 export const SOFT_DROP_SCORE = 1;
 export const HARD_DROP_SCORE = 2;
 
 // Level and speed
 export const LINES_PER_LEVEL = 10;
 export const INITIAL_DROP_INTERVAL = 1000; // milliseconds
-export const MIN_DROP_INTERVAL = 100;
-export const DROP_INTERVAL_DECREASE = 50; // decrease per level
+// Guideline gravity: (0.8 - (level - 1) * 0.007) ^ (level - 1) seconds per row
+export const GRAVITY_BASE = 0.8;
+export const GRAVITY_DECREASE = 0.007;
+export const TWENTY_G_LEVEL = 20; // from this level pieces fall 20 rows per frame
+export const TWENTY_G_ROWS = 20;
+
+// Marathon mode
+export const MARATHON_LINE_OPTIONS = [0, 150]; // 0 = endless, 150 = finish after level 15
+export const DEFAULT_MARATHON_LINES = 0;
+
+// Fixed timestep
+export const TICK_RATE = 60; // logic updates per second
+export const FRAME_TIME = 1000 / TICK_RATE; // milliseconds per logic update
+
+// Lock delay
+export const LOCK_DELAY = 500; // milliseconds a grounded piece waits before locking
+export const LOCK_RESET_LIMIT = 15; // guideline move/rotate reset cap (Infinity = infinite)
+
+// Sprint mode
+export const SPRINT_LINE_OPTIONS = [20, 40, 100];
+export const DEFAULT_SPRINT_LINES = 40;
+
+// Ultra mode
+export const ULTRA_DURATION_OPTIONS = [60000, 120000, 180000, 300000]; // milliseconds
+export const DEFAULT_ULTRA_DURATION = 120000;
+
+// Garbage
+export const GARBAGE_CELL = 'G'.charCodeAt(0); // cell value of garbage blocks
+export const GARBAGE_COLOR = '#808080';
+export const GARBAGE_METER_WIDTH = 6; // pixels
+export const GARBAGE_SEED_SALT = 0x9e3779b9; // derives the garbage hole sequence from the game seed
+
+// Dig mode
+export const DIG_LINE_OPTIONS = [10, 18, 100];
+export const DEFAULT_DIG_LINES = 10;
+export const DIG_GARBAGE_HEIGHT = 10; // garbage rows kept on the board while any remain
+
+// Survival mode
+export const SURVIVAL_RISE_INTERVAL = 8000; // milliseconds between rising rows at the start
+export const SURVIVAL_MIN_RISE_INTERVAL = 1500;
+export const SURVIVAL_RISE_ACCELERATION = 0.95; // interval multiplier after each queued row
+
+// Versus attack table (garbage rows sent per clear)
+export const ATTACK_VALUES: Record<number, number> = {
+  0: 0,
+  1: 0, // Single
+  2: 1, // Double
+  3: 2, // Triple
+  4: 4, // Tetris
+};
+export const TSPIN_ATTACK_VALUES: Record<number, number> = {
+  1: 2, // T-Spin Single
+  2: 4, // T-Spin Double
+  3: 6, // T-Spin Triple
+};
+export const TSPIN_MINI_ATTACK_VALUES: Record<number, number> = {
+  1: 0, // T-Spin Mini Single
+  2: 1, // T-Spin Mini Double
+};
+export const BACK_TO_BACK_ATTACK = 1;
+export const COMBO_ATTACK_VALUES = [0, 0, 1, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5]; // indexed by combo, last value repeats
+export const PERFECT_CLEAR_ATTACK = 10;
+
+// Autoplay bot
+export const BOT_WEIGHTS = {
+  aggregateHeight: -0.51,
+  linesCleared: 0.76,
+  holes: -0.36,
+  bumpiness: -0.18,
+  wells: -0.1,
+};
+export const AUTOPLAY_SPEED_OPTIONS = [1, 2, 3, 5, 10]; // pieces per second
+export const DEFAULT_AUTOPLAY_SPEED = 2;
 
 // Input handling
 export const DAS_DELAY = 170; // Delayed Auto Shift delay in ms
 export const ARR_INTERVAL = 50; // Auto Repeat Rate in ms
+export const MAX_DAS = 500;
+export const MAX_ARR = 100;
+export const DEFAULT_SOFT_DROP_FACTOR = 20; // soft drop speed as a multiple of level 1 gravity
+export const MIN_SOFT_DROP_FACTOR = 5;
+export const MAX_SOFT_DROP_FACTOR = 40;
+
+// Leaderboards
+export const LEADERBOARD_SIZE = 10; // entries kept per table
+export const MAX_PLAYER_NAME_LENGTH = 16;
+
+// Audio
+export const DEFAULT_MASTER_VOLUME = 0.8;
+export const DEFAULT_SFX_VOLUME = 0.6;
+export const DEFAULT_MUSIC_VOLUME = 0.4;
+
+// Music (tempo multipliers apply to the track's own tempo)
+export const MUSIC_LOOKAHEAD = 0.1; // seconds of notes scheduled ahead of the audio clock
+export const MUSIC_TEMPO_PER_LEVEL = 0.05;
+export const MUSIC_MAX_LEVEL_TEMPO = 1.75;
+export const MUSIC_DANGER_TEMPO = 1.25; // extra speed-up while the stack is near the top
+export const MUSIC_DANGER_ROWS = 6; // stack within this many rows of the top counts as danger
+export const MUSIC_NOTE_LENGTH = 0.9; // fraction of its steps a note sounds for
+
+// Touch gestures (distances in board cells, times in ms)
+export const TOUCH_TAP_MAX_DISTANCE = 0.4; // further than this and it's a drag, not a tap
+export const TOUCH_TAP_MAX_TIME = 250;
+export const TOUCH_FLICK_VELOCITY = 0.03; // cells per ms - a faster swipe down hard drops
+export const TOUCH_HOLD_SWIPE_DISTANCE = 2; // swipe up this far to hold
+
+// Gamepad (standard mapping button indices)
+export enum GamepadButton {
+  A = 0,
+  B = 1,
+  X = 2,
+  Y = 3,
+  LB = 4,
+  RB = 5,
+  LT = 6,
+  RT = 7,
+  BACK = 8,
+  START = 9,
+  L3 = 10,
+  R3 = 11,
+  DPAD_UP = 12,
+  DPAD_DOWN = 13,
+  DPAD_LEFT = 14,
+  DPAD_RIGHT = 15,
+}
+export const GAMEPAD_AXIS_X = 0; // left stick
+export const GAMEPAD_AXIS_Y = 1;
+export const DEFAULT_GAMEPAD_DEAD_ZONE = 0.5;
+export const MAX_GAMEPAD_DEAD_ZONE = 0.9;
 
 // Keys
 export enum KeyCode {
@@ -283,4 +489,12 @@ export enum KeyCode {
   W = 'KeyW',
   SHIFT = 'ShiftLeft',
   CTRL = 'ControlLeft',
+  // Versus keys
+  Q = 'KeyQ',
+  E = 'KeyE',
+  F = 'KeyF',
+  PERIOD = 'Period',
+  SLASH = 'Slash',
+  SHIFT_RIGHT = 'ShiftRight',
+  ENTER = 'Enter',
 }
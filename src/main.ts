@@ -1,8 +1,27 @@
 // Main entry point - bootstrap the application
 
 import { GameController } from '@application/GameController';
+import { VersusController } from '@application/VersusController';
+import { loadKeyBindings } from '@application/KeyBindings';
+import { loadHandling } from '@application/Handling';
+import { loadGamepadMapping } from '@application/GamepadMapping';
+import { loadAudioSettings } from '@application/AudioSettings';
+import { SoundEffects } from '@application/SoundEffects';
+import { BackgroundMusic } from '@application/BackgroundMusic';
+import { Leaderboards } from '@application/Leaderboards';
+import { AudioEngine } from '@infrastructure/AudioEngine';
+import { openScoreStorage } from '@infrastructure/ScoreStorage';
+import { Preferences } from '@infrastructure/Preferences';
 import { Renderer } from '@presentation/Renderer';
 import { UIController } from '@presentation/UIController';
+import { ReplayControls } from '@presentation/ReplayControls';
+import { VersusUI } from '@presentation/VersusUI';
+import { KeyBindingsPanel } from '@presentation/KeyBindingsPanel';
+import { HandlingPanel } from '@presentation/HandlingPanel';
+import { GamepadPanel } from '@presentation/GamepadPanel';
+import { TouchControls } from '@presentation/TouchControls';
+import { AudioPanel } from '@presentation/AudioPanel';
+import { LeaderboardPanel } from '@presentation/LeaderboardPanel';
 
 /**
  * Initialize and start the Tetris game
@@ -18,14 +37,58 @@ function main(): void {
       throw new Error('Canvas elements not found');
     }
 
-    // Create game controller
-    const gameController = new GameController();
+    // Create game controller with the player's saved controls, handling and gamepad mapping
+    const preferences = new Preferences();
+    const gameController = new GameController(
+      {},
+      undefined,
+      loadKeyBindings(preferences),
+      loadHandling(preferences),
+      loadGamepadMapping(preferences)
+    );
 
     // Create renderer
-    const renderer = new Renderer(gameCanvas, nextCanvas, holdCanvas);
+    const renderer = new Renderer(
+      gameCanvas,
+      nextCanvas,
+      holdCanvas,
+      gameController.getSettings().previewCount
+    );
+
+    // Create the high score tables (IndexedDB, or localStorage as a fallback)
+    const leaderboards = new Leaderboards(openScoreStorage(), preferences);
+    const leaderboardPanel = new LeaderboardPanel(gameController, leaderboards);
 
     // Create UI controller (sets up button event listeners)
-    new UIController(gameController);
+    new UIController(gameController, leaderboardPanel, renderer);
+
+    // Create replay controls (export, import and playback)
+    new ReplayControls(gameController);
+
+    // Create the controls panels (key bindings, handling and gamepad)
+    new KeyBindingsPanel(gameController, preferences);
+    new HandlingPanel(gameController, preferences);
+    new GamepadPanel(gameController, preferences);
+
+    // Create touch controls (board gestures and on-screen buttons)
+    new TouchControls(gameController, preferences);
+
+    // Create the local two-player versus view
+    const versusController = new VersusController();
+    new VersusUI(versusController, gameController);
+
+    // Create sound effects for both the single-player and versus games
+    const audioEngine = new AudioEngine();
+    new AudioPanel(audioEngine, preferences, loadAudioSettings(preferences));
+    const soundEffects = new SoundEffects(audioEngine);
+    // Seeking a replay re-simulates the game, so its events stay silent
+    soundEffects.attach(gameController.eventBus, () => gameController.replayPlayer.isSeeking());
+    versusController.players.forEach((player) => soundEffects.attach(player.eventBus));
+
+    // Create background music (follows player 1 in versus)
+    const music = new BackgroundMusic(audioEngine);
+    music.attach(gameController.store, gameController.eventBus);
+    music.attach(versusController.players[0].store, versusController.players[0].eventBus);
 
     // Set render callback
     gameController.setRenderCallback(() => {
@@ -45,6 +108,7 @@ function main(): void {
     // Cleanup on page unload
     window.addEventListener('beforeunload', () => {
       gameController.destroy();
+      versusController.destroy();
     });
 
     // Log successful initialization
@@ -0,0 +1,101 @@
+// Audio panel - volume sliders (master, effects, music) and mute toggle, saved to localStorage
+
+import {
+  AudioSettings,
+  applyAudioSettings,
+  saveAudioSettings,
+} from '@application/AudioSettings';
+import { AudioEngine } from '@infrastructure/AudioEngine';
+import { Preferences } from '@infrastructure/Preferences';
+
+export class AudioPanel {
+  private masterSlider: HTMLInputElement;
+  private sfxSlider: HTMLInputElement;
+  private musicSlider: HTMLInputElement;
+  private masterValueEl: HTMLElement;
+  private sfxValueEl: HTMLElement;
+  private musicValueEl: HTMLElement;
+  private muteToggle: HTMLInputElement;
+  private boundUnlock: () => void;
+
+  constructor(
+    private engine: AudioEngine,
+    private preferences: Preferences,
+    private settings: AudioSettings
+  ) {
+    this.masterSlider = this.getElement('master-volume-slider') as HTMLInputElement;
+    this.sfxSlider = this.getElement('sfx-volume-slider') as HTMLInputElement;
+    this.musicSlider = this.getElement('music-volume-slider') as HTMLInputElement;
+    this.masterValueEl = this.getElement('master-volume-value');
+    this.sfxValueEl = this.getElement('sfx-volume-value');
+    this.musicValueEl = this.getElement('music-volume-value');
+    this.muteToggle = this.getElement('mute-toggle') as HTMLInputElement;
+
+    this.masterSlider.addEventListener('input', () => {
+      this.apply({ ...this.settings, masterVolume: Number(this.masterSlider.value) / 100 });
+    });
+    this.sfxSlider.addEventListener('input', () => {
+      this.apply({ ...this.settings, sfxVolume: Number(this.sfxSlider.value) / 100 });
+    });
+    this.musicSlider.addEventListener('input', () => {
+      this.apply({ ...this.settings, musicVolume: Number(this.musicSlider.value) / 100 });
+    });
+    this.muteToggle.addEventListener('change', () => {
+      this.apply({ ...this.settings, muted: this.muteToggle.checked });
+    });
+
+    // Browsers only let audio start from a user gesture - create the context on the first one
+    this.boundUnlock = this.unlock.bind(this);
+    window.addEventListener('pointerdown', this.boundUnlock, true);
+    window.addEventListener('keydown', this.boundUnlock, true);
+
+    this.apply(settings);
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Start the audio context and stop waiting for gestures
+   */
+  private unlock(): void {
+    this.engine.unlock();
+    window.removeEventListener('pointerdown', this.boundUnlock, true);
+    window.removeEventListener('keydown', this.boundUnlock, true);
+  }
+
+  /**
+   * Activate, persist and display new settings
+   */
+  private apply(settings: AudioSettings): void {
+    this.settings = settings;
+    applyAudioSettings(this.engine, settings);
+    saveAudioSettings(this.preferences, settings);
+    this.render();
+  }
+
+  /**
+   * Sync the controls and their labels
+   */
+  private render(): void {
+    const master = Math.round(this.settings.masterVolume * 100);
+    const sfx = Math.round(this.settings.sfxVolume * 100);
+    const music = Math.round(this.settings.musicVolume * 100);
+
+    this.masterSlider.value = master.toString();
+    this.sfxSlider.value = sfx.toString();
+    this.musicSlider.value = music.toString();
+    this.masterValueEl.textContent = `${master}%`;
+    this.sfxValueEl.textContent = `${sfx}%`;
+    this.musicValueEl.textContent = `${music}%`;
+    this.muteToggle.checked = this.settings.muted;
+  }
+}
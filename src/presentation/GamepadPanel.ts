@@ -0,0 +1,249 @@
+// Gamepad panel - rebind pad buttons and tune the stick dead-zone, saved to localStorage
+
+import { GameController } from '@application/GameController';
+import {
+  GamepadMapping,
+  DEFAULT_GAMEPAD_MAPPING,
+  cloneGamepadMapping,
+  bindButton,
+  unbindButton,
+  saveGamepadMapping,
+} from '@application/GamepadMapping';
+import { InputAction } from '@domain/types';
+import { GamepadButton, MAX_GAMEPAD_DEAD_ZONE } from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+import { ACTION_LABELS } from './KeyBindingsPanel';
+
+const BUTTON_NAMES: Record<number, string> = {
+  [GamepadButton.A]: 'A',
+  [GamepadButton.B]: 'B',
+  [GamepadButton.X]: 'X',
+  [GamepadButton.Y]: 'Y',
+  [GamepadButton.LB]: 'LB',
+  [GamepadButton.RB]: 'RB',
+  [GamepadButton.LT]: 'LT',
+  [GamepadButton.RT]: 'RT',
+  [GamepadButton.BACK]: 'Back',
+  [GamepadButton.START]: 'Start',
+  [GamepadButton.L3]: 'L3',
+  [GamepadButton.R3]: 'R3',
+  [GamepadButton.DPAD_UP]: 'D-pad ↑',
+  [GamepadButton.DPAD_DOWN]: 'D-pad ↓',
+  [GamepadButton.DPAD_LEFT]: 'D-pad ←',
+  [GamepadButton.DPAD_RIGHT]: 'D-pad →',
+};
+
+/**
+ * Human-readable name for a button index
+ */
+function formatButton(button: number): string {
+  return BUTTON_NAMES[button] ?? `Button ${button}`;
+}
+
+export class GamepadPanel {
+  private connectionEl: HTMLElement;
+  private listEl: HTMLElement;
+  private statusEl: HTMLElement;
+  private deadZoneSlider: HTMLInputElement;
+  private deadZoneValueEl: HTMLElement;
+  private resetBtn: HTMLButtonElement;
+  private listeningAction: InputAction | null = null;
+  private heldButtons: Set<number> = new Set(); // buttons already down when listening began
+  private listenFrameId: number | null = null;
+
+  constructor(
+    private gameController: GameController,
+    private preferences: Preferences
+  ) {
+    this.connectionEl = this.getElement('gamepad-connection');
+    this.listEl = this.getElement('gamepad-binding-list');
+    this.statusEl = this.getElement('gamepad-binding-status');
+    this.deadZoneSlider = this.getElement('dead-zone-slider') as HTMLInputElement;
+    this.deadZoneValueEl = this.getElement('dead-zone-value');
+    this.resetBtn = this.getElement('gamepad-reset-btn') as HTMLButtonElement;
+
+    this.deadZoneSlider.max = Math.round(MAX_GAMEPAD_DEAD_ZONE * 100).toString();
+    this.deadZoneSlider.addEventListener('input', () => {
+      this.apply({
+        ...this.gameController.getGamepadMapping(),
+        deadZone: Number(this.deadZoneSlider.value) / 100,
+      });
+    });
+    this.resetBtn.addEventListener('click', () => {
+      this.stopListening();
+      this.apply(cloneGamepadMapping(DEFAULT_GAMEPAD_MAPPING));
+      this.statusEl.textContent = 'Gamepad reset to defaults';
+    });
+
+    // The panel shares the controls modal - refresh whenever it opens or closes
+    this.getElement('keys-btn').addEventListener('click', () => {
+      this.statusEl.textContent = '';
+      this.renderConnection();
+      this.render();
+    });
+    this.getElement('keys-close-btn').addEventListener('click', () => this.stopListening());
+
+    window.addEventListener('gamepadconnected', () => this.renderConnection());
+    window.addEventListener('gamepaddisconnected', () => this.renderConnection());
+
+    this.renderConnection();
+    this.render();
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Connected pads, skipping empty slots
+   */
+  private getPads(): Gamepad[] {
+    if (!navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+
+  /**
+   * Buttons currently pressed on any pad
+   */
+  private getPressedButtons(): Set<number> {
+    const pressed = new Set<number>();
+    for (const pad of this.getPads()) {
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed) pressed.add(index);
+      });
+    }
+    return pressed;
+  }
+
+  /**
+   * Wait for the next button press and bind it to an action
+   */
+  private startListening(action: InputAction): void {
+    this.stopListening();
+
+    if (this.getPads().length === 0) {
+      this.statusEl.textContent = 'Connect a gamepad and press any button first';
+      return;
+    }
+
+    this.listeningAction = action;
+    this.heldButtons = this.getPressedButtons();
+    this.statusEl.textContent = `Press a button for ${ACTION_LABELS[action]}`;
+    this.listenFrameId = requestAnimationFrame(() => this.pollForButton());
+    this.render();
+  }
+
+  /**
+   * Stop waiting for a button press
+   */
+  private stopListening(): void {
+    if (this.listenFrameId !== null) {
+      cancelAnimationFrame(this.listenFrameId);
+      this.listenFrameId = null;
+    }
+    if (this.listeningAction === null) return;
+    this.listeningAction = null;
+    this.render();
+  }
+
+  /**
+   * Check the pads once per frame until a new button goes down
+   */
+  private pollForButton(): void {
+    const action = this.listeningAction;
+    if (action === null) return;
+
+    const pressed = this.getPressedButtons();
+    const button = [...pressed].find((b) => !this.heldButtons.has(b));
+
+    if (button === undefined) {
+      // Buttons released while waiting count as new next time
+      this.heldButtons = pressed;
+      this.listenFrameId = requestAnimationFrame(() => this.pollForButton());
+      return;
+    }
+
+    this.listenFrameId = null;
+    this.listeningAction = null;
+
+    const mapping = this.gameController.getGamepadMapping();
+    const conflicts = Object.values(InputAction).filter(
+      (other) => other !== action && mapping.buttons[other].includes(button)
+    );
+    this.apply(bindButton(mapping, action, button));
+
+    this.statusEl.textContent =
+      conflicts.length > 0
+        ? `${formatButton(button)} moved from ${conflicts.map((a) => ACTION_LABELS[a]).join(', ')}`
+        : '';
+  }
+
+  /**
+   * Activate, persist and display a new mapping
+   */
+  private apply(mapping: GamepadMapping): void {
+    this.gameController.setGamepadMapping(mapping);
+    saveGamepadMapping(this.preferences, mapping);
+    this.render();
+  }
+
+  /**
+   * Show which pads are connected
+   */
+  private renderConnection(): void {
+    const pads = this.getPads();
+    this.connectionEl.textContent =
+      pads.length > 0
+        ? pads.map((pad) => `Pad ${pad.index + 1}: ${pad.id}`).join(', ')
+        : 'No gamepad connected';
+  }
+
+  /**
+   * Render the button rows and the dead-zone slider
+   */
+  private render(): void {
+    const mapping = this.gameController.getGamepadMapping();
+
+    this.listEl.replaceChildren(
+      ...Object.values(InputAction).map((action) => {
+        const row = document.createElement('div');
+        row.className = 'key-binding-row';
+
+        const label = document.createElement('span');
+        label.className = 'key-binding-label';
+        label.textContent = ACTION_LABELS[action];
+        row.appendChild(label);
+
+        for (const button of mapping.buttons[action]) {
+          const chip = document.createElement('button');
+          chip.textContent = `${formatButton(button)} ×`;
+          chip.title = 'Remove this button';
+          chip.addEventListener('click', () => {
+            this.apply(unbindButton(mapping, action, button));
+          });
+          row.appendChild(chip);
+        }
+
+        const add = document.createElement('button');
+        const isListening = this.listeningAction === action;
+        add.textContent = isListening ? '...' : '+';
+        add.classList.toggle('listening', isListening);
+        add.addEventListener('click', () => this.startListening(action));
+        row.appendChild(add);
+
+        return row;
+      })
+    );
+
+    const percent = Math.round(mapping.deadZone * 100);
+    this.deadZoneSlider.value = percent.toString();
+    this.deadZoneValueEl.textContent = `${percent}%`;
+  }
+}
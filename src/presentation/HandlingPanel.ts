@@ -0,0 +1,94 @@
+// Handling panel - DAS, ARR and soft drop sliders, saved to localStorage
+
+import { GameController } from '@application/GameController';
+import {
+  HandlingSettings,
+  DEFAULT_HANDLING,
+  clampHandling,
+  saveHandling,
+} from '@application/Handling';
+import { MAX_SOFT_DROP_FACTOR } from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+
+// The soft drop slider's last stop stands for instant (infinite) soft drop
+const INSTANT_SOFT_DROP_STOP = MAX_SOFT_DROP_FACTOR + 1;
+
+export class HandlingPanel {
+  private dasSlider: HTMLInputElement;
+  private arrSlider: HTMLInputElement;
+  private sdfSlider: HTMLInputElement;
+  private dasValueEl: HTMLElement;
+  private arrValueEl: HTMLElement;
+  private sdfValueEl: HTMLElement;
+  private resetBtn: HTMLButtonElement;
+
+  constructor(
+    private gameController: GameController,
+    private preferences: Preferences
+  ) {
+    this.dasSlider = this.getElement('das-slider') as HTMLInputElement;
+    this.arrSlider = this.getElement('arr-slider') as HTMLInputElement;
+    this.sdfSlider = this.getElement('sdf-slider') as HTMLInputElement;
+    this.dasValueEl = this.getElement('das-value');
+    this.arrValueEl = this.getElement('arr-value');
+    this.sdfValueEl = this.getElement('sdf-value');
+    this.resetBtn = this.getElement('handling-reset-btn') as HTMLButtonElement;
+
+    for (const slider of [this.dasSlider, this.arrSlider, this.sdfSlider]) {
+      slider.addEventListener('input', () => this.apply(this.readSliders()));
+    }
+    this.resetBtn.addEventListener('click', () => this.apply({ ...DEFAULT_HANDLING }));
+
+    this.render(gameController.getHandling());
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Read the settings from the sliders
+   */
+  private readSliders(): HandlingSettings {
+    const sdf = Number(this.sdfSlider.value);
+    return {
+      das: Number(this.dasSlider.value),
+      arr: Number(this.arrSlider.value),
+      softDropFactor: sdf >= INSTANT_SOFT_DROP_STOP ? Infinity : sdf,
+    };
+  }
+
+  /**
+   * Activate, persist and display new settings
+   */
+  private apply(handling: HandlingSettings): void {
+    const clamped = clampHandling(handling);
+    this.gameController.setHandling(clamped);
+    saveHandling(this.preferences, clamped);
+    this.render(clamped);
+  }
+
+  /**
+   * Sync the sliders and their labels
+   */
+  private render(handling: Readonly<HandlingSettings>): void {
+    const isInstantDrop = !Number.isFinite(handling.softDropFactor);
+
+    this.dasSlider.value = handling.das.toString();
+    this.arrSlider.value = handling.arr.toString();
+    this.sdfSlider.value = (
+      isInstantDrop ? INSTANT_SOFT_DROP_STOP : handling.softDropFactor
+    ).toString();
+
+    this.dasValueEl.textContent = `${handling.das} ms`;
+    this.arrValueEl.textContent = handling.arr === 0 ? 'Instant' : `${handling.arr} ms`;
+    this.sdfValueEl.textContent = isInstantDrop ? 'Instant' : `${handling.softDropFactor}x`;
+  }
+}
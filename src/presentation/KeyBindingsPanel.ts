@@ -0,0 +1,235 @@
+// Key bindings panel - rebind controls by pressing keys, saved to localStorage
+
+import { GameController } from '@application/GameController';
+import {
+  KeyBindings,
+  DEFAULT_KEY_BINDINGS,
+  cloneKeyBindings,
+  findConflicts,
+  bindKey,
+  unbindKey,
+  saveKeyBindings,
+} from '@application/KeyBindings';
+import { InputAction, GameStatus } from '@domain/types';
+import { Preferences } from '@infrastructure/Preferences';
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  [InputAction.MOVE_LEFT]: 'Move Left',
+  [InputAction.MOVE_RIGHT]: 'Move Right',
+  [InputAction.SOFT_DROP]: 'Soft Drop',
+  [InputAction.HARD_DROP]: 'Hard Drop',
+  [InputAction.ROTATE_CW]: 'Rotate Right',
+  [InputAction.ROTATE_CCW]: 'Rotate Left',
+  [InputAction.HOLD]: 'Hold',
+  [InputAction.PAUSE]: 'Pause',
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt',
+  Period: '.',
+  Comma: ',',
+  Slash: '/',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Minus: '-',
+  Equal: '=',
+};
+
+/**
+ * Human-readable name for a key code
+ */
+export function formatKey(code: string): string {
+  return KEY_NAMES[code] ?? code.replace(/^(Key|Digit)/, '').replace(/^Numpad/, 'Num ');
+}
+
+export class KeyBindingsPanel {
+  private modal: HTMLElement;
+  private listEl: HTMLElement;
+  private statusEl: HTMLElement;
+  private hintsEl: HTMLElement;
+  private openBtn: HTMLButtonElement;
+  private resetBtn: HTMLButtonElement;
+  private closeBtn: HTMLButtonElement;
+  private listeningAction: InputAction | null = null;
+  private boundCaptureKey: (e: KeyboardEvent) => void;
+
+  constructor(
+    private gameController: GameController,
+    private preferences: Preferences
+  ) {
+    this.modal = this.getElement('keys-modal');
+    this.listEl = this.getElement('key-binding-list');
+    this.statusEl = this.getElement('key-binding-status');
+    this.hintsEl = this.getElement('key-hints');
+    this.openBtn = this.getElement('keys-btn') as HTMLButtonElement;
+    this.resetBtn = this.getElement('keys-reset-btn') as HTMLButtonElement;
+    this.closeBtn = this.getElement('keys-close-btn') as HTMLButtonElement;
+    this.boundCaptureKey = this.captureKey.bind(this);
+
+    this.openBtn.addEventListener('click', () => this.open());
+    this.closeBtn.addEventListener('click', () => this.close());
+    this.resetBtn.addEventListener('click', () => {
+      this.apply(cloneKeyBindings(DEFAULT_KEY_BINDINGS));
+      this.statusEl.textContent = 'Controls reset to defaults';
+    });
+
+    this.renderHints();
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Show the panel (a running game is paused)
+   */
+  private open(): void {
+    // Pause through the dispatcher so the pause is recorded in the replay
+    if (this.gameController.store.getState().status === GameStatus.PLAYING) {
+      this.gameController.dispatcher.dispatch(InputAction.PAUSE);
+    }
+    this.statusEl.textContent = '';
+    this.renderList();
+    this.modal.classList.add('show');
+  }
+
+  /**
+   * Hide the panel
+   */
+  private close(): void {
+    this.stopListening();
+    this.modal.classList.remove('show');
+  }
+
+  /**
+   * Wait for the next key press and bind it to an action
+   */
+  private startListening(action: InputAction): void {
+    this.stopListening();
+    this.listeningAction = action;
+    this.statusEl.textContent = `Press a key for ${ACTION_LABELS[action]} (Esc to cancel)`;
+    // Capture phase on window runs before the game's own key listeners
+    window.addEventListener('keydown', this.boundCaptureKey, true);
+    this.renderList();
+  }
+
+  /**
+   * Stop waiting for a key press
+   */
+  private stopListening(): void {
+    if (this.listeningAction === null) return;
+    this.listeningAction = null;
+    window.removeEventListener('keydown', this.boundCaptureKey, true);
+  }
+
+  /**
+   * Bind the captured key, reporting any action it was taken from
+   */
+  private captureKey(event: KeyboardEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const action = this.listeningAction;
+    if (action === null) return;
+    this.stopListening();
+
+    if (event.code === 'Escape') {
+      this.statusEl.textContent = '';
+      this.renderList();
+      return;
+    }
+
+    const bindings = this.gameController.getKeyBindings();
+    const conflicts = findConflicts(bindings, event.code, action);
+    this.apply(bindKey(bindings, action, event.code));
+
+    this.statusEl.textContent =
+      conflicts.length > 0
+        ? `${formatKey(event.code)} moved from ${conflicts.map((a) => ACTION_LABELS[a]).join(', ')}`
+        : '';
+  }
+
+  /**
+   * Activate, persist and display new bindings
+   */
+  private apply(bindings: KeyBindings): void {
+    this.gameController.setKeyBindings(bindings);
+    saveKeyBindings(this.preferences, bindings);
+    this.renderList();
+    this.renderHints();
+  }
+
+  /**
+   * Render one row per action: its keys (click to remove) and an add button
+   */
+  private renderList(): void {
+    const bindings = this.gameController.getKeyBindings();
+
+    this.listEl.replaceChildren(
+      ...Object.values(InputAction).map((action) => {
+        const row = document.createElement('div');
+        row.className = 'key-binding-row';
+
+        const label = document.createElement('span');
+        label.className = 'key-binding-label';
+        label.textContent = ACTION_LABELS[action];
+        row.appendChild(label);
+
+        for (const key of bindings[action]) {
+          const chip = document.createElement('button');
+          chip.textContent = `${formatKey(key)} ×`;
+          chip.title = 'Remove this key';
+          chip.addEventListener('click', () => {
+            this.apply(unbindKey(bindings, action, key));
+          });
+          row.appendChild(chip);
+        }
+
+        const add = document.createElement('button');
+        const isListening = this.listeningAction === action;
+        add.textContent = isListening ? '...' : '+';
+        add.classList.toggle('listening', isListening);
+        add.addEventListener('click', () => this.startListening(action));
+        row.appendChild(add);
+
+        return row;
+      })
+    );
+  }
+
+  /**
+   * Show the active controls in the side panel
+   */
+  private renderHints(): void {
+    const bindings = this.gameController.getKeyBindings();
+
+    this.hintsEl.replaceChildren(
+      ...Object.values(InputAction).map((action) => {
+        const hint = document.createElement('div');
+        const keys = bindings[action].map(formatKey).join(' / ') || '-';
+        hint.textContent = `${ACTION_LABELS[action]} : ${keys}`;
+        return hint;
+      })
+    );
+  }
+}
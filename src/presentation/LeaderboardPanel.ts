@@ -0,0 +1,261 @@
+// Leaderboard panel - name entry after a game and the high score tables view
+
+import { GameController } from '@application/GameController';
+import { Leaderboards } from '@application/Leaderboards';
+import {
+  ScoreEntry,
+  LeaderboardRules,
+  getLeaderboardId,
+  getAllLeaderboardRules,
+  isRankedResult,
+} from '@domain/Leaderboard';
+import { GameEvent, GameMode, GameStatus, InputAction } from '@domain/types';
+import { MAX_PLAYER_NAME_LENGTH } from '@infrastructure/constants';
+import { formatTime } from './formatTime';
+
+const MODE_NAMES: Record<GameMode, string> = {
+  [GameMode.MARATHON]: 'Marathon',
+  [GameMode.SPRINT]: 'Sprint',
+  [GameMode.ULTRA]: 'Ultra',
+  [GameMode.DIG]: 'Dig',
+  [GameMode.SURVIVAL]: 'Survival',
+  [GameMode.VERSUS]: 'Versus',
+};
+
+/**
+ * Human-readable table name, e.g. "Sprint - 40 Lines"
+ */
+function formatLeaderboardName(rules: LeaderboardRules): string {
+  const mode = MODE_NAMES[rules.mode];
+  switch (rules.mode) {
+    case GameMode.SPRINT:
+      return `${mode} - ${rules.sprintLines} Lines`;
+    case GameMode.ULTRA:
+      return `${mode} - ${rules.ultraDuration / 60000} Min`;
+    case GameMode.MARATHON:
+      return `${mode} - ${rules.marathonLines === 0 ? 'Endless' : `${rules.marathonLines} Lines`}`;
+    case GameMode.DIG:
+      return `${mode} - ${rules.digLines} Lines`;
+    default:
+      return mode;
+  }
+}
+
+export class LeaderboardPanel {
+  private modal: HTMLElement;
+  private openBtn: HTMLButtonElement;
+  private closeBtn: HTMLButtonElement;
+  private tableSelect: HTMLSelectElement;
+  private tableBody: HTMLElement;
+  private emptyEl: HTMLElement;
+  private allRules: LeaderboardRules[];
+  private botAssisted: boolean = false; // autoplay was on when the game started
+
+  constructor(
+    private gameController: GameController,
+    private leaderboards: Leaderboards
+  ) {
+    this.modal = this.getElement('leaderboard-modal');
+    this.openBtn = this.getElement('leaderboard-btn') as HTMLButtonElement;
+    this.closeBtn = this.getElement('leaderboard-close-btn') as HTMLButtonElement;
+    this.tableSelect = this.getElement('leaderboard-select') as HTMLSelectElement;
+    this.tableBody = this.getElement('leaderboard-body');
+    this.emptyEl = this.getElement('leaderboard-empty');
+    this.allRules = getAllLeaderboardRules();
+
+    this.tableSelect.replaceChildren(
+      ...this.allRules.map((rules) => {
+        const option = document.createElement('option');
+        option.value = getLeaderboardId(rules);
+        option.textContent = formatLeaderboardName(rules);
+        return option;
+      })
+    );
+
+    this.openBtn.addEventListener('click', () => this.open());
+    this.closeBtn.addEventListener('click', () => this.modal.classList.remove('show'));
+    this.tableSelect.addEventListener('change', () => this.showTable());
+
+    gameController.eventBus.on(GameEvent.GAME_START, () => {
+      this.botAssisted = gameController.autoplay.isEnabled();
+    });
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Offer name entry in a results modal if the game that just ended makes its table
+   */
+  public offerEntry(container: HTMLElement, finished: boolean): void {
+    container.replaceChildren();
+    this.renderEntry(container, finished).catch((error) => {
+      console.error('Failed to load high scores:', error);
+      container.replaceChildren(this.createMessage('High scores are unavailable'));
+    });
+  }
+
+  /**
+   * Fill a results modal with name entry, or a note that the result didn't make the table
+   */
+  private async renderEntry(container: HTMLElement, finished: boolean): Promise<void> {
+    const state = this.gameController.store.getState();
+    const rules = this.gameController.getSettings();
+    if (
+      !isRankedResult(state.mode, finished) ||
+      this.botAssisted ||
+      this.gameController.autoplay.isEnabled()
+    ) {
+      return;
+    }
+
+    const entry: ScoreEntry = {
+      name: '',
+      score: state.score,
+      lines: state.lines,
+      level: state.level,
+      duration: state.elapsedTime,
+      date: Date.now(),
+      seed: state.seed,
+    };
+
+    const rank = await this.leaderboards.getRank(rules, entry);
+    if (rank === null) {
+      const name = formatLeaderboardName(rules);
+      container.appendChild(this.createMessage(`Not in the ${name} top scores`));
+      return;
+    }
+
+    container.appendChild(this.createEntryForm(container, rules, entry, rank));
+  }
+
+  /**
+   * Name input and save button for a qualifying result
+   */
+  private createEntryForm(
+    container: HTMLElement,
+    rules: LeaderboardRules,
+    entry: ScoreEntry,
+    rank: number
+  ): HTMLFormElement {
+    const form = document.createElement('form');
+    form.className = 'score-entry-form';
+
+    const label = document.createElement('p');
+    label.textContent = `#${rank} on ${formatLeaderboardName(rules)}! Enter your name:`;
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.maxLength = MAX_PLAYER_NAME_LENGTH;
+    input.value = this.leaderboards.getPlayerName();
+    // Keep typing away from the game's key bindings
+    input.addEventListener('keydown', (event) => event.stopPropagation());
+
+    const save = document.createElement('button');
+    save.type = 'submit';
+    save.textContent = 'Save';
+
+    form.append(label, input, save);
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      save.disabled = true;
+
+      try {
+        const savedRank = await this.leaderboards.submit(rules, { ...entry, name: input.value });
+        container.replaceChildren(
+          this.createMessage(
+            savedRank === null ? 'Score no longer makes the table' : `Saved as #${savedRank}`
+          )
+        );
+      } catch (error) {
+        console.error('Failed to save score:', error);
+        label.textContent = 'Could not save your score - try again';
+        save.disabled = false;
+      }
+    });
+
+    // Focus once the modal is visible
+    requestAnimationFrame(() => input.select());
+    return form;
+  }
+
+  /**
+   * A one-line note in a results modal
+   */
+  private createMessage(text: string): HTMLElement {
+    const message = document.createElement('p');
+    message.textContent = text;
+    return message;
+  }
+
+  /**
+   * Show the tables, starting with the selected mode's (a running game is paused)
+   */
+  private open(): void {
+    // Pause through the dispatcher so the pause is recorded in the replay
+    if (this.gameController.store.getState().status === GameStatus.PLAYING) {
+      this.gameController.dispatcher.dispatch(InputAction.PAUSE);
+    }
+    this.tableSelect.value = getLeaderboardId(this.gameController.getSettings());
+    if (this.tableSelect.selectedIndex === -1) {
+      this.tableSelect.selectedIndex = 0;
+    }
+    this.showTable();
+    this.modal.classList.add('show');
+  }
+
+  /**
+   * Load and show the selected table, reporting storage failures in place of the entries
+   */
+  private showTable(): void {
+    this.renderTable().catch((error) => {
+      console.error('Failed to load high scores:', error);
+      this.tableBody.replaceChildren();
+      this.emptyEl.textContent = 'High scores are unavailable';
+      this.emptyEl.style.display = '';
+    });
+  }
+
+  /**
+   * Fill the table with the selected leaderboard
+   */
+  private async renderTable(): Promise<void> {
+    const rules = this.allRules.find((r) => getLeaderboardId(r) === this.tableSelect.value);
+    if (!rules) return;
+
+    const entries = await this.leaderboards.getEntries(rules);
+    this.emptyEl.textContent = 'No scores yet';
+    this.emptyEl.style.display = entries.length === 0 ? '' : 'none';
+
+    this.tableBody.replaceChildren(
+      ...entries.map((entry, index) => {
+        const row = document.createElement('tr');
+        row.title = `Seed ${entry.seed}`;
+
+        const cells = [
+          `${index + 1}`,
+          entry.name,
+          entry.score.toString(),
+          entry.lines.toString(),
+          entry.level.toString(),
+          formatTime(entry.duration),
+          new Date(entry.date).toLocaleDateString(),
+        ];
+        for (const text of cells) {
+          const cell = document.createElement('td');
+          cell.textContent = text;
+          row.appendChild(cell);
+        }
+        return row;
+      })
+    );
+  }
+}
@@ -2,7 +2,19 @@
 
 import { GameState } from '@domain/types';
 import { Piece } from '@infrastructure/Piece';
-import { CELL_SIZE, BOARD_WIDTH, BOARD_HEIGHT, PIECE_COLORS, PieceType } from '@infrastructure/constants';
+import {
+  CELL_SIZE,
+  BOARD_WIDTH,
+  BOARD_HEIGHT,
+  PIECE_COLORS,
+  PieceType,
+  PERFECT_CLEAR_BANNER_DURATION,
+  NEXT_PREVIEW_COUNT,
+  GARBAGE_CELL,
+  GARBAGE_COLOR,
+  GARBAGE_METER_WIDTH,
+} from '@infrastructure/constants';
+import { getBoundingBox } from '@infrastructure/Matrix';
 
 export class Renderer {
   private ctx: CanvasRenderingContext2D;
@@ -15,10 +27,14 @@ export class Renderer {
   constructor(
     private canvas: HTMLCanvasElement,
     private nextCanvas: HTMLCanvasElement,
-    private holdCanvas: HTMLCanvasElement
+    private holdCanvas: HTMLCanvasElement,
+    private previewCount: number = NEXT_PREVIEW_COUNT
   ) {
     this.cellSize = CELL_SIZE;
 
+    // Size the next queue to the number of preview pieces
+    this.setupNextCanvas();
+
     // Setup main canvas
     const ctx = canvas.getContext('2d', {
       alpha: false,
@@ -73,6 +89,51 @@ export class Renderer {
     this.backgroundCtx.scale(dpr, dpr);
   }
 
+  /**
+   * Size the next canvas: one large slot for the first piece, smaller slots below it
+   */
+  private setupNextCanvas(): void {
+    if (this.previewCount === 0) {
+      this.nextCanvas.style.display = 'none';
+      return;
+    }
+    this.nextCanvas.style.display = '';
+
+    const { firstSlot, slot, padding } = this.getNextQueueLayout();
+    this.nextCanvas.height = padding * 2 + firstSlot + (this.previewCount - 1) * slot;
+  }
+
+  /**
+   * Change the number of preview pieces shown, resizing the next canvas to match
+   */
+  public setPreviewCount(previewCount: number): void {
+    if (previewCount === this.previewCount) return;
+    this.previewCount = previewCount;
+    this.setupNextCanvas();
+  }
+
+  /**
+   * Get next queue slot sizes derived from the canvas width
+   */
+  private getNextQueueLayout(): {
+    firstCell: number;
+    firstSlot: number;
+    cell: number;
+    slot: number;
+    padding: number;
+  } {
+    const width = this.nextCanvas.width;
+    const firstCell = width / 6;
+    const cell = width / 9;
+    return {
+      firstCell,
+      firstSlot: firstCell * 4,
+      cell,
+      slot: cell * 3,
+      padding: firstCell / 2,
+    };
+  }
+
   /**
    * Render the complete game state
    */
@@ -88,9 +149,20 @@ export class Renderer {
       this.renderGhostPiece(state);
     }
 
-    // Draw current piece
+    // Draw current piece (fades out while the lock delay runs)
     if (state.currentPiece) {
-      this.renderPiece(state.currentPiece, state.currentX, state.currentY);
+      const lockProgress = Math.min(state.lockTimer / state.lockDelay, 1);
+      this.renderPiece(state.currentPiece, state.currentX, state.currentY, 1 - lockProgress * 0.6);
+    }
+
+    // Draw incoming garbage warning
+    if (state.incomingGarbage > 0) {
+      this.renderGarbageMeter(state.incomingGarbage);
+    }
+
+    // Draw perfect clear banner
+    if (state.perfectClearTimer > 0) {
+      this.renderPerfectClearBanner(state);
     }
 
     // Draw next piece
@@ -216,7 +288,28 @@ export class Renderer {
   }
 
   /**
-   * Render next piece preview
+   * Render the "ALL CLEAR" banner, fading out as its timer runs down
+   */
+  private renderPerfectClearBanner(state: GameState): void {
+    const ctx = this.ctx;
+    const width = BOARD_WIDTH * this.cellSize;
+    const height = BOARD_HEIGHT * this.cellSize;
+    const alpha = Math.min(state.perfectClearTimer / PERFECT_CLEAR_BANNER_DURATION, 1);
+
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, height / 2 - this.cellSize, width, this.cellSize * 2);
+
+    ctx.fillStyle = '#fff';
+    ctx.font = `bold ${this.cellSize}px 'Courier New', monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('ALL CLEAR', width / 2, height / 2);
+    ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Render the next queue as a vertical stack (first piece larger)
    */
   private renderNextPiece(state: GameState): void {
     const ctx = this.nextCtx;
@@ -225,23 +318,39 @@ export class Renderer {
     // Clear
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    if (state.nextPieces.length === 0) return;
+    const { firstCell, firstSlot, cell, slot, padding } = this.getNextQueueLayout();
+    const centerX = canvas.width / 2;
+    let slotTop = padding;
 
-    const nextPiece = state.nextPieces[0];
-    const color = nextPiece.getColor();
-    const shape = nextPiece.getShape();
+    state.nextPieces.slice(0, this.previewCount).forEach((piece, index) => {
+      const cellSize = index === 0 ? firstCell : cell;
+      const slotHeight = index === 0 ? firstSlot : slot;
+      this.renderPreviewPiece(ctx, piece, centerX, slotTop + slotHeight / 2, cellSize);
+      slotTop += slotHeight;
+    });
+  }
 
-    // Center the piece in the preview canvas
-    const previewSize = 4;
-    const cellSize = canvas.width / (previewSize + 2);
-    const offsetX = cellSize;
-    const offsetY = cellSize;
+  /**
+   * Render a piece centered on a point of a preview canvas
+   */
+  private renderPreviewPiece(
+    ctx: CanvasRenderingContext2D,
+    piece: Piece,
+    centerX: number,
+    centerY: number,
+    cellSize: number
+  ): void {
+    const color = piece.getColor();
+    const shape = piece.getShape();
+    const { minRow, maxRow, minCol, maxCol } = getBoundingBox(shape);
+    const offsetX = centerX - ((maxCol - minCol + 1) * cellSize) / 2;
+    const offsetY = centerY - ((maxRow - minRow + 1) * cellSize) / 2;
 
-    for (let row = 0; row < shape.length; row++) {
-      for (let col = 0; col < shape[row].length; col++) {
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
         if (shape[row][col] !== 0) {
-          const x = offsetX + col * cellSize;
-          const y = offsetY + row * cellSize;
+          const x = offsetX + (col - minCol) * cellSize;
+          const y = offsetY + (row - minRow) * cellSize;
 
           ctx.fillStyle = color;
           ctx.fillRect(x + 1, y + 1, cellSize - 2, cellSize - 2);
@@ -299,10 +408,29 @@ export class Renderer {
     }
   }
 
+  /**
+   * Render the incoming garbage meter along the left edge of the board
+   */
+  private renderGarbageMeter(rows: number): void {
+    const ctx = this.ctx;
+    const boardHeight = BOARD_HEIGHT * this.cellSize;
+    const height = Math.min(rows, BOARD_HEIGHT) * this.cellSize;
+
+    ctx.save();
+    ctx.globalAlpha = 0.8;
+    ctx.fillStyle = '#ff3030';
+    ctx.fillRect(0, boardHeight - height, GARBAGE_METER_WIDTH, height);
+    ctx.restore();
+  }
+
   /**
    * Get color for a cell value
    */
   private getCellColor(cellValue: number): string {
+    if (cellValue === GARBAGE_CELL) {
+      return GARBAGE_COLOR;
+    }
+
     // Cell value is the char code of the piece type
     const pieceChar = String.fromCharCode(cellValue);
     return PIECE_COLORS[pieceChar as PieceType] || '#888';
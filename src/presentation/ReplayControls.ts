@@ -0,0 +1,155 @@
+// Replay controls - export/import buttons and the playback bar
+
+import { GameController } from '@application/GameController';
+import { serializeReplay, parseReplay } from '@application/Replay';
+import { GameStatus } from '@domain/types';
+import { TICK_RATE } from '@infrastructure/constants';
+
+export class ReplayControls {
+  private exportBtn: HTMLButtonElement;
+  private importBtn: HTMLButtonElement;
+  private fileInput: HTMLInputElement;
+  private controlsEl: HTMLElement;
+  private seekEl: HTMLInputElement;
+  private timeEl: HTMLElement;
+  private durationEl: HTMLElement;
+  private playBtn: HTMLButtonElement;
+  private speedEl: HTMLSelectElement;
+  private exitBtn: HTMLButtonElement;
+
+  constructor(private gameController: GameController) {
+    // Get DOM elements
+    this.exportBtn = this.getElement('export-replay-btn') as HTMLButtonElement;
+    this.importBtn = this.getElement('import-replay-btn') as HTMLButtonElement;
+    this.fileInput = this.getElement('replay-file-input') as HTMLInputElement;
+    this.controlsEl = this.getElement('replay-controls');
+    this.seekEl = this.getElement('replay-seek') as HTMLInputElement;
+    this.timeEl = this.getElement('replay-time');
+    this.durationEl = this.getElement('replay-duration');
+    this.playBtn = this.getElement('replay-play-btn') as HTMLButtonElement;
+    this.speedEl = this.getElement('replay-speed') as HTMLSelectElement;
+    this.exitBtn = this.getElement('replay-exit-btn') as HTMLButtonElement;
+
+    this.setupEventListeners();
+    this.gameController.store.subscribe(() => this.updateUI());
+    this.updateUI();
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Setup button and input event listeners
+   */
+  private setupEventListeners(): void {
+    const player = this.gameController.replayPlayer;
+
+    this.exportBtn.addEventListener('click', () => this.exportReplay());
+
+    this.importBtn.addEventListener('click', () => this.fileInput.click());
+
+    this.fileInput.addEventListener('change', () => {
+      const file = this.fileInput.files?.[0];
+      if (file) {
+        this.importReplay(file);
+      }
+      this.fileInput.value = '';
+    });
+
+    this.playBtn.addEventListener('click', () => {
+      if (player.isPlaying()) {
+        player.pause();
+      } else {
+        player.play();
+      }
+      this.updateUI();
+    });
+
+    this.speedEl.addEventListener('change', () => {
+      player.setSpeed(Number(this.speedEl.value));
+    });
+
+    this.seekEl.addEventListener('input', () => {
+      player.seek(Number(this.seekEl.value));
+      this.updateUI();
+    });
+
+    this.exitBtn.addEventListener('click', () => {
+      this.gameController.exitReplay();
+      this.updateUI();
+    });
+  }
+
+  /**
+   * Download the last recorded game as a JSON file
+   */
+  private exportReplay(): void {
+    const replay = this.gameController.replayRecorder.getReplay();
+    if (!replay) return;
+
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tetris-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Load a replay file and start playing it
+   */
+  private async importReplay(file: File): Promise<void> {
+    try {
+      const replay = parseReplay(await file.text());
+      this.speedEl.value = '1';
+      this.gameController.playReplay(replay);
+      this.updateUI();
+    } catch (error) {
+      console.error('Failed to import replay:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import replay.');
+    }
+  }
+
+  /**
+   * Update controls based on recorder and player state
+   */
+  private updateUI(): void {
+    const player = this.gameController.replayPlayer;
+    const status = this.gameController.store.getState().status;
+    const isActive = player.isActive();
+
+    // Only export finished or paused live games
+    this.exportBtn.disabled =
+      isActive ||
+      status === GameStatus.PLAYING ||
+      this.gameController.replayRecorder.getReplay() === null;
+
+    this.controlsEl.classList.toggle('show', isActive);
+    if (!isActive) return;
+
+    this.seekEl.max = player.getDuration().toString();
+    this.seekEl.value = player.getTick().toString();
+    this.timeEl.textContent = this.formatTicks(player.getTick());
+    this.durationEl.textContent = this.formatTicks(player.getDuration());
+    this.playBtn.textContent = player.isPlaying() ? 'Pause' : 'Play';
+  }
+
+  /**
+   * Format a tick count as m:ss
+   */
+  private formatTicks(ticks: number): string {
+    const totalSeconds = Math.floor(ticks / TICK_RATE);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+}
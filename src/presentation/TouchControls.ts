@@ -0,0 +1,126 @@
+// Touch controls - board gestures and an optional on-screen button overlay
+
+import { GameController } from '@application/GameController';
+import { InputAction } from '@domain/types';
+import { BOARD_WIDTH, BOARD_HEIGHT } from '@infrastructure/constants';
+import { Preferences } from '@infrastructure/Preferences';
+
+const TOUCH_OVERLAY_PREFERENCE = 'touchOverlay';
+
+export class TouchControls {
+  private canvas: HTMLCanvasElement;
+  private overlay: HTMLElement;
+  private overlayToggle: HTMLInputElement;
+  private pointerId: number | null = null; // the finger being tracked on the board
+
+  constructor(
+    private gameController: GameController,
+    private preferences: Preferences
+  ) {
+    this.canvas = this.getElement('game-canvas') as HTMLCanvasElement;
+    this.overlay = this.getElement('touch-overlay');
+    this.overlayToggle = this.getElement('touch-overlay-toggle') as HTMLInputElement;
+
+    this.setupGestures();
+    this.setupOverlay();
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Track one finger on the board (mouse clicks are left to the keyboard player)
+   */
+  private setupGestures(): void {
+    const { touchInput } = this.gameController;
+
+    this.canvas.addEventListener('pointerdown', (event) => {
+      if (event.pointerType === 'mouse' || this.pointerId !== null) return;
+      event.preventDefault();
+      this.pointerId = event.pointerId;
+      this.canvas.setPointerCapture(event.pointerId);
+      const { x, y } = this.toCells(event);
+      touchInput.begin(x, y);
+    });
+
+    this.canvas.addEventListener('pointermove', (event) => {
+      if (event.pointerId !== this.pointerId) return;
+      event.preventDefault();
+      const { x, y } = this.toCells(event);
+      touchInput.move(x, y);
+    });
+
+    this.canvas.addEventListener('pointerup', (event) => {
+      if (event.pointerId !== this.pointerId) return;
+      event.preventDefault();
+      this.pointerId = null;
+      const { x, y } = this.toCells(event);
+      touchInput.end(x, y);
+    });
+
+    this.canvas.addEventListener('pointercancel', (event) => {
+      if (event.pointerId !== this.pointerId) return;
+      this.pointerId = null;
+      touchInput.cancel();
+    });
+  }
+
+  /**
+   * Convert a pointer position to board cells (the canvas may be scaled by CSS)
+   */
+  private toCells(event: PointerEvent): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * BOARD_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * BOARD_HEIGHT,
+    };
+  }
+
+  /**
+   * Wire the on-screen buttons and the overlay toggle (on by default for touch screens)
+   */
+  private setupOverlay(): void {
+    const { touchInput } = this.gameController;
+
+    this.overlay.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach((button) => {
+      const action = InputAction[button.dataset.action as keyof typeof InputAction];
+      if (!action) {
+        throw new Error(`Unknown touch button action "${button.dataset.action}"`);
+      }
+
+      button.addEventListener('pointerdown', (event) => {
+        event.preventDefault();
+        button.setPointerCapture(event.pointerId);
+        touchInput.pressButton(action);
+      });
+      for (const type of ['pointerup', 'pointercancel'] as const) {
+        button.addEventListener(type, () => touchInput.releaseButton(action));
+      }
+    });
+
+    const stored = this.preferences.load(TOUCH_OVERLAY_PREFERENCE);
+    const isTouchScreen = window.matchMedia('(pointer: coarse)').matches;
+    this.setOverlayVisible(typeof stored === 'boolean' ? stored : isTouchScreen);
+
+    this.overlayToggle.addEventListener('change', () => {
+      this.setOverlayVisible(this.overlayToggle.checked);
+      this.preferences.save(TOUCH_OVERLAY_PREFERENCE, this.overlayToggle.checked);
+    });
+  }
+
+  /**
+   * Show or hide the on-screen buttons
+   */
+  private setOverlayVisible(visible: boolean): void {
+    this.overlayToggle.checked = visible;
+    this.overlay.classList.toggle('show', visible);
+  }
+}
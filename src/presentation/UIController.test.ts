@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { UIController } from './UIController';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { Renderer } from './Renderer';
+import { GameController } from '@application/GameController';
+import { Leaderboards } from '@application/Leaderboards';
+import { FinishReason, GameEvent, GameMode, GameSettings } from '@domain/types';
+import { ManualClock } from '@infrastructure/Clock';
+import { PersonalBests } from '@infrastructure/PersonalBests';
+import { LocalScoreStorage } from '@infrastructure/ScoreStorage';
+import { Preferences } from '@infrastructure/Preferences';
+import { RandomizerType } from '@infrastructure/Randomizer';
+
+const SPRINT_LINES = 40;
+
+/**
+ * A renderer that only records the preview count (jsdom has no 2D canvas)
+ */
+function createRenderer(): Renderer {
+  return { setPreviewCount: vi.fn() } as unknown as Renderer;
+}
+
+/**
+ * A game wired to the page's UI, with nothing persisted but personal bests
+ */
+function createGame(
+  settings: Partial<GameSettings> = {},
+  renderer: Renderer = createRenderer()
+): GameController {
+  const game = new GameController(settings, new ManualClock());
+  const leaderboards = new Leaderboards(
+    Promise.resolve(new LocalScoreStorage(null)),
+    new Preferences(null)
+  );
+  new UIController(game, new LeaderboardPanel(game, leaderboards), renderer);
+  return game;
+}
+
+/**
+ * A Sprint game wired to the page's UI
+ */
+function createSprint(): GameController {
+  return createGame({ mode: GameMode.SPRINT, sprintLines: SPRINT_LINES });
+}
+
+/**
+ * Type a value into a setup control, as the player would
+ */
+function enter(id: string, value: string): void {
+  const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement;
+  el.value = value;
+  el.dispatchEvent(new Event(el instanceof HTMLSelectElement ? 'change' : 'input'));
+}
+
+/**
+ * Click a button on the page
+ */
+function click(id: string): void {
+  document.getElementById(id)!.click();
+}
+
+/**
+ * End the running game as a completed Sprint
+ */
+function finishSprint(game: GameController, elapsedTime: number): void {
+  game.eventBus.emit(GameEvent.GAME_FINISH, {
+    mode: GameMode.SPRINT,
+    reason: FinishReason.GOAL_REACHED,
+    elapsedTime,
+    score: 0,
+    lines: SPRINT_LINES,
+  });
+}
+
+describe('UIController Sprint personal bests', () => {
+  beforeEach(() => {
+    document.documentElement.innerHTML = readFileSync('index.html', 'utf-8');
+    localStorage.clear();
+  });
+
+  it('records a personal best for a game the player finished', () => {
+    const game = createSprint();
+    game.start(1);
+    finishSprint(game, 60000);
+
+    expect(new PersonalBests().getSprintBest(SPRINT_LINES)).toBe(60000);
+    expect(document.querySelector('#finish-details .personal-best')).not.toBeNull();
+
+    game.destroy();
+  });
+
+  it('ignores a game the bot played', () => {
+    const game = createSprint();
+    game.autoplay.enable();
+    game.start(1);
+    finishSprint(game, 30000);
+
+    expect(new PersonalBests().getSprintBest(SPRINT_LINES)).toBeNull();
+    expect(document.querySelector('#finish-details .personal-best')).toBeNull();
+
+    game.destroy();
+  });
+
+  it('ignores a game the bot started even if the player took over', () => {
+    const game = createSprint();
+    game.autoplay.enable();
+    game.start(1);
+    game.autoplay.disable();
+    finishSprint(game, 30000);
+
+    expect(new PersonalBests().getSprintBest(SPRINT_LINES)).toBeNull();
+
+    game.destroy();
+  });
+});
+
+describe('UIController setup controls', () => {
+  beforeEach(() => {
+    document.documentElement.innerHTML = readFileSync('index.html', 'utf-8');
+    localStorage.clear();
+  });
+
+  it('starts and restarts from the seed typed in', () => {
+    const game = createGame();
+    enter('seed-input', '12345');
+
+    click('start-btn');
+    expect(game.store.getState().seed).toBe(12345);
+    expect((document.getElementById('seed-input') as HTMLInputElement).disabled).toBe(true);
+
+    click('restart-btn');
+    expect(game.store.getState().seed).toBe(12345);
+
+    game.destroy();
+  });
+
+  it('picks a random seed when none is typed in', () => {
+    const game = createGame();
+    enter('seed-input', 'not a seed');
+
+    click('start-btn');
+    const { seed } = game.store.getState();
+    click('restart-btn');
+    expect(game.store.getState().seed).not.toBe(seed);
+
+    game.destroy();
+  });
+
+  it('deals the next game with the chosen randomizer', () => {
+    const game = createGame();
+    enter('randomizer-select', RandomizerType.NES);
+    expect(game.getSettings().randomizer).toBe(RandomizerType.NES);
+
+    click('start-btn');
+    expect(game.replayRecorder.getReplay()!.rules.randomizer).toBe(RandomizerType.NES);
+    expect((document.getElementById('randomizer-select') as HTMLSelectElement).disabled).toBe(true);
+
+    game.destroy();
+  });
+
+  it('resizes the next queue to the chosen preview count', () => {
+    const renderer = createRenderer();
+    const game = createGame({}, renderer);
+    enter('preview-count-select', '2');
+    expect(renderer.setPreviewCount).toHaveBeenCalledWith(2);
+
+    click('start-btn');
+    expect(game.store.getState().nextPieces).toHaveLength(2);
+    expect((document.getElementById('preview-count-select') as HTMLSelectElement).disabled).toBe(
+      true
+    );
+
+    game.destroy();
+  });
+});
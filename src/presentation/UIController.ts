@@ -1,30 +1,116 @@
 // UI Controller - DOM element management
 
 import { GameController } from '@application/GameController';
-import { GameState, GameStatus, GameEvent } from '@domain/types';
+import {
+  GameState,
+  GameStatus,
+  GameEvent,
+  GameMode,
+  GameFinishPayload,
+  FinesseFaultPayload,
+  FinishReason,
+  InputAction,
+} from '@domain/types';
+import { PersonalBests } from '@infrastructure/PersonalBests';
+import { RandomizerType } from '@infrastructure/Randomizer';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { Renderer } from './Renderer';
+import { formatTime } from './formatTime';
 
 export class UIController {
   private scoreEl: HTMLElement;
   private linesEl: HTMLElement;
   private levelEl: HTMLElement;
+  private timeEl: HTMLElement;
+  private timeLabelEl: HTMLElement;
+  private finesseEl: HTMLElement;
+  private gameCanvas: HTMLElement;
+  private gameOverFinesseEl: HTMLElement;
+  private finishFinesseEl: HTMLElement;
+  private gameOverEntryEl: HTMLElement;
+  private finishEntryEl: HTMLElement;
+  private garbageStatEl: HTMLElement;
+  private garbageEl: HTMLElement;
+  private modeSelect: HTMLSelectElement;
+  private sprintLinesSelect: HTMLSelectElement;
+  private marathonLinesSelect: HTMLSelectElement;
+  private ultraDurationSelect: HTMLSelectElement;
+  private digLinesSelect: HTMLSelectElement;
+  private randomizerSelect: HTMLSelectElement;
+  private previewCountSelect: HTMLSelectElement;
+  private seedInput: HTMLInputElement;
+  private autoplayToggle: HTMLInputElement;
+  private autoplaySpeedSelect: HTMLSelectElement;
   private startBtn: HTMLButtonElement;
   private pauseBtn: HTMLButtonElement;
   private restartBtn: HTMLButtonElement;
   private gameOverModal: HTMLElement;
   private finalScoreEl: HTMLElement;
+  private finalScoreRowEl: HTMLElement;
+  private finalTimeEl: HTMLElement;
+  private finalTimeRowEl: HTMLElement;
   private restartModalBtn: HTMLButtonElement;
+  private finishModal: HTMLElement;
+  private finishTitleEl: HTMLElement;
+  private finishDetailsEl: HTMLElement;
+  private finishRestartBtn: HTMLButtonElement;
+  private personalBests: PersonalBests;
+  private botAssisted: boolean = false; // autoplay was on when the game started
 
-  constructor(private gameController: GameController) {
+  constructor(
+    private gameController: GameController,
+    private leaderboardPanel: LeaderboardPanel,
+    private renderer: Renderer
+  ) {
     // Get DOM elements
     this.scoreEl = this.getElement('score');
     this.linesEl = this.getElement('lines');
     this.levelEl = this.getElement('level');
+    this.timeEl = this.getElement('time');
+    this.timeLabelEl = this.getElement('time-label');
+    this.finesseEl = this.getElement('finesse');
+    this.gameCanvas = this.getElement('game-canvas');
+    this.gameOverFinesseEl = this.getElement('game-over-finesse');
+    this.finishFinesseEl = this.getElement('finish-finesse');
+    this.gameOverEntryEl = this.getElement('game-over-entry');
+    this.finishEntryEl = this.getElement('finish-entry');
+    this.garbageStatEl = this.getElement('garbage-stat');
+    this.garbageEl = this.getElement('garbage');
+    this.modeSelect = this.getElement('mode-select') as HTMLSelectElement;
+    this.sprintLinesSelect = this.getElement('sprint-lines-select') as HTMLSelectElement;
+    this.ultraDurationSelect = this.getElement('ultra-duration-select') as HTMLSelectElement;
+    this.marathonLinesSelect = this.getElement('marathon-lines-select') as HTMLSelectElement;
+    this.digLinesSelect = this.getElement('dig-lines-select') as HTMLSelectElement;
+    this.randomizerSelect = this.getElement('randomizer-select') as HTMLSelectElement;
+    this.previewCountSelect = this.getElement('preview-count-select') as HTMLSelectElement;
+    this.seedInput = this.getElement('seed-input') as HTMLInputElement;
+    this.autoplayToggle = this.getElement('autoplay-toggle') as HTMLInputElement;
+    this.autoplaySpeedSelect = this.getElement('autoplay-speed-select') as HTMLSelectElement;
     this.startBtn = this.getElement('start-btn') as HTMLButtonElement;
     this.pauseBtn = this.getElement('pause-btn') as HTMLButtonElement;
     this.restartBtn = this.getElement('restart-btn') as HTMLButtonElement;
     this.gameOverModal = this.getElement('game-over-modal');
     this.finalScoreEl = this.getElement('final-score');
+    this.finalScoreRowEl = this.getElement('final-score-row');
+    this.finalTimeEl = this.getElement('final-time');
+    this.finalTimeRowEl = this.getElement('final-time-row');
     this.restartModalBtn = this.getElement('restart-modal-btn') as HTMLButtonElement;
+    this.finishModal = this.getElement('finish-modal');
+    this.finishTitleEl = this.getElement('finish-title');
+    this.finishDetailsEl = this.getElement('finish-details');
+    this.finishRestartBtn = this.getElement('finish-restart-btn') as HTMLButtonElement;
+    this.personalBests = new PersonalBests();
+
+    // Reflect the controller's mode settings in the selects
+    const settings = gameController.getSettings();
+    this.modeSelect.value = settings.mode;
+    this.sprintLinesSelect.value = settings.sprintLines.toString();
+    this.ultraDurationSelect.value = settings.ultraDuration.toString();
+    this.marathonLinesSelect.value = settings.marathonLines.toString();
+    this.autoplaySpeedSelect.value = gameController.autoplay.getSpeed().toString();
+    this.digLinesSelect.value = settings.digLines.toString();
+    this.randomizerSelect.value = settings.randomizer;
+    this.previewCountSelect.value = settings.previewCount.toString();
 
     this.setupEventListeners();
     this.subscribeToGameEvents();
@@ -47,22 +133,48 @@ export class UIController {
    */
   private setupEventListeners(): void {
     this.startBtn.addEventListener('click', () => {
-      this.gameController.start();
+      this.gameController.start(this.getSeed());
     });
 
     this.pauseBtn.addEventListener('click', () => {
-      this.gameController.togglePause();
+      this.gameController.dispatcher.dispatch(InputAction.PAUSE);
     });
 
     this.restartBtn.addEventListener('click', () => {
       this.hideGameOverModal();
-      this.gameController.restart();
+      this.hideFinishModal();
+      this.gameController.restart(this.getSeed());
     });
 
     this.restartModalBtn.addEventListener('click', () => {
       this.hideGameOverModal();
-      this.gameController.restart();
+      this.gameController.restart(this.getSeed());
+    });
+
+    this.finishRestartBtn.addEventListener('click', () => {
+      this.hideFinishModal();
+      this.gameController.restart(this.getSeed());
+    });
+
+    this.autoplayToggle.addEventListener('change', () => {
+      if (this.autoplayToggle.checked) {
+        this.gameController.autoplay.enable();
+      } else {
+        this.gameController.autoplay.disable();
+      }
+    });
+
+    this.autoplaySpeedSelect.addEventListener('change', () => {
+      this.gameController.autoplay.setSpeed(Number(this.autoplaySpeedSelect.value));
     });
+
+    this.modeSelect.addEventListener('change', () => this.applyModeSettings());
+    this.sprintLinesSelect.addEventListener('change', () => this.applyModeSettings());
+    this.ultraDurationSelect.addEventListener('change', () => this.applyModeSettings());
+    this.marathonLinesSelect.addEventListener('change', () => this.applyModeSettings());
+    this.digLinesSelect.addEventListener('change', () => this.applyModeSettings());
+    this.randomizerSelect.addEventListener('change', () => this.applyModeSettings());
+    this.previewCountSelect.addEventListener('change', () => this.applyModeSettings());
   }
 
   /**
@@ -74,12 +186,63 @@ export class UIController {
       this.updateUI(state);
     });
 
-    // Subscribe to game over event
+    // Count finesse errors and flash the board on a wasteful placement
+    this.gameController.eventBus.on(GameEvent.GAME_START, () => {
+      this.finesseEl.textContent = '0';
+    });
+
+    // Games the bot played any part of don't set personal bests
+    this.gameController.eventBus.on(GameEvent.GAME_START, () => {
+      this.botAssisted = this.gameController.autoplay.isEnabled();
+    });
+    this.gameController.eventBus.on<FinesseFaultPayload>(GameEvent.FINESSE_FAULT, () => {
+      this.finesseEl.textContent = this.gameController.finesseTracker.getStats().errors.toString();
+      this.flashFinesseFault();
+    });
+
+    // Subscribe to game over event (replays end without the modal)
     this.gameController.eventBus.on(GameEvent.GAME_OVER, () => {
-      this.showGameOverModal();
+      if (!this.gameController.replayPlayer.isActive()) {
+        this.showGameOverModal();
+      }
+    });
+
+    // Subscribe to mode finish event (replaces the game over modal)
+    this.gameController.eventBus.on<GameFinishPayload>(GameEvent.GAME_FINISH, (result) => {
+      if (!this.gameController.replayPlayer.isActive()) {
+        this.showFinishModal(result);
+      }
     });
   }
 
+  /**
+   * Seed typed into the setup controls, or undefined for a random one
+   */
+  private getSeed(): number | undefined {
+    const value = this.seedInput.value.trim();
+    if (!/^\d+$/.test(value) || Number(value) > 0xffffffff) {
+      return undefined;
+    }
+    return Number(value);
+  }
+
+  /**
+   * Apply the selected mode, randomizer and preview count to the next game
+   */
+  private applyModeSettings(): void {
+    this.gameController.applySettings({
+      mode: this.modeSelect.value as GameMode,
+      sprintLines: Number(this.sprintLinesSelect.value),
+      ultraDuration: Number(this.ultraDurationSelect.value),
+      marathonLines: Number(this.marathonLinesSelect.value),
+      digLines: Number(this.digLinesSelect.value),
+      randomizer: this.randomizerSelect.value as RandomizerType,
+      previewCount: Number(this.previewCountSelect.value),
+    });
+    this.renderer.setPreviewCount(this.gameController.getSettings().previewCount);
+    this.updateUI(this.gameController.store.getState());
+  }
+
   /**
    * Update UI elements based on game state
    */
@@ -89,6 +252,42 @@ export class UIController {
     this.linesEl.textContent = state.lines.toString();
     this.levelEl.textContent = state.level.toString();
 
+    // Timed modes count down, others count up
+    const { timeLimit } = state.modeRules;
+    this.timeLabelEl.textContent = timeLimit > 0 ? 'Time Left:' : 'Time:';
+    this.timeEl.textContent = formatTime(
+      timeLimit > 0 ? Math.max(timeLimit - state.elapsedTime, 0) : state.elapsedTime
+    );
+
+    // Garbage left to dig (on the board plus still to rise)
+    const hasGarbage = state.modeRules.garbageLines > 0;
+    this.garbageStatEl.style.display = hasGarbage ? '' : 'none';
+    if (hasGarbage) {
+      this.garbageEl.textContent = (
+        state.board.countGarbageRows() + state.garbageRemaining
+      ).toString();
+    }
+
+    // Mode can only change between games
+    const inGame = state.status === GameStatus.PLAYING || state.status === GameStatus.PAUSED;
+    this.modeSelect.disabled = inGame;
+    this.sprintLinesSelect.disabled = inGame;
+    this.ultraDurationSelect.disabled = inGame;
+    this.marathonLinesSelect.disabled = inGame;
+    this.digLinesSelect.disabled = inGame;
+    this.randomizerSelect.disabled = inGame;
+    this.previewCountSelect.disabled = inGame;
+    this.seedInput.disabled = inGame;
+    this.sprintLinesSelect.style.display = state.mode === GameMode.SPRINT ? '' : 'none';
+    this.ultraDurationSelect.style.display = state.mode === GameMode.ULTRA ? '' : 'none';
+    this.marathonLinesSelect.style.display = state.mode === GameMode.MARATHON ? '' : 'none';
+    this.digLinesSelect.style.display = state.mode === GameMode.DIG ? '' : 'none';
+
+    // Replays switch the bot off, and it can't be switched on while one plays
+    const isReplay = this.gameController.replayPlayer.isActive();
+    this.autoplayToggle.checked = this.gameController.autoplay.isEnabled();
+    this.autoplayToggle.disabled = isReplay;
+
     // Update buttons
     this.updateButtons(state.status);
   }
@@ -121,6 +320,7 @@ export class UIController {
         break;
 
       case GameStatus.GAME_OVER:
+      case GameStatus.FINISHED:
         this.startBtn.disabled = false;
         this.startBtn.textContent = 'New Game';
         this.pauseBtn.disabled = true;
@@ -130,11 +330,17 @@ export class UIController {
   }
 
   /**
-   * Show game over modal
+   * Show game over modal (Survival is scored by time survived)
    */
   private showGameOverModal(): void {
     const state = this.gameController.store.getState();
+    const isSurvival = state.mode === GameMode.SURVIVAL;
     this.finalScoreEl.textContent = state.score.toString();
+    this.finalTimeEl.textContent = formatTime(state.elapsedTime);
+    this.finalScoreRowEl.style.display = isSurvival ? 'none' : '';
+    this.finalTimeRowEl.style.display = isSurvival ? '' : 'none';
+    this.renderFinesseSummary(this.gameOverFinesseEl);
+    this.leaderboardPanel.offerEntry(this.gameOverEntryEl, false);
     this.gameOverModal.classList.add('show');
   }
 
@@ -144,4 +350,111 @@ export class UIController {
   private hideGameOverModal(): void {
     this.gameOverModal.classList.remove('show');
   }
+
+  /**
+   * Show the mode results (Sprint time and personal best, Ultra score attack)
+   */
+  private showFinishModal(result: GameFinishPayload): void {
+    const rows: Array<[string, string]> = [];
+    let isPersonalBest = false;
+
+    switch (result.mode) {
+      case GameMode.SPRINT: {
+        const target = this.gameController.getSettings().sprintLines;
+        const botAssisted = this.botAssisted || this.gameController.autoplay.isEnabled();
+        isPersonalBest =
+          !botAssisted && this.personalBests.submitSprintTime(target, result.elapsedTime);
+        const best = this.personalBests.getSprintBest(target);
+        this.finishTitleEl.textContent = `${target} Lines Complete!`;
+        rows.push(['Time', formatTime(result.elapsedTime)]);
+        if (best !== null) {
+          rows.push(['Best', formatTime(best)]);
+        }
+        break;
+      }
+      case GameMode.ULTRA: {
+        const minutes = result.elapsedTime / 60000;
+        this.finishTitleEl.textContent =
+          result.reason === FinishReason.TIME_UP ? "Time's Up!" : 'Complete!';
+        rows.push(['Score', result.score.toString()]);
+        rows.push(['Lines', result.lines.toString()]);
+        rows.push(['Points/Min', minutes > 0 ? Math.round(result.score / minutes).toString() : '0']);
+        break;
+      }
+      case GameMode.MARATHON:
+        this.finishTitleEl.textContent = 'Marathon Complete!';
+        rows.push(['Score', result.score.toString()]);
+        rows.push(['Lines', result.lines.toString()]);
+        rows.push(['Time', formatTime(result.elapsedTime)]);
+        break;
+      case GameMode.DIG:
+        this.finishTitleEl.textContent = 'Dig Complete!';
+        rows.push(['Time', formatTime(result.elapsedTime)]);
+        rows.push(['Garbage', this.gameController.getSettings().digLines.toString()]);
+        rows.push(['Lines', result.lines.toString()]);
+        break;
+      default:
+        this.finishTitleEl.textContent = 'Complete!';
+        rows.push(['Score', result.score.toString()]);
+        rows.push(['Lines', result.lines.toString()]);
+        break;
+    }
+
+    this.finishDetailsEl.replaceChildren(
+      ...rows.map(([label, value]) => {
+        const row = document.createElement('p');
+        row.textContent = `${label}: ${value}`;
+        return row;
+      })
+    );
+
+    if (isPersonalBest) {
+      const badge = document.createElement('p');
+      badge.className = 'personal-best';
+      badge.textContent = 'New Personal Best!';
+      this.finishDetailsEl.appendChild(badge);
+    }
+
+    this.renderFinesseSummary(this.finishFinesseEl);
+    this.leaderboardPanel.offerEntry(this.finishEntryEl, true);
+    this.finishModal.classList.add('show');
+  }
+
+  /**
+   * Hide the mode results modal
+   */
+  private hideFinishModal(): void {
+    this.finishModal.classList.remove('show');
+  }
+
+  /**
+   * Restart the board's flash animation
+   */
+  private flashFinesseFault(): void {
+    this.gameCanvas.classList.remove('finesse-flash');
+    void this.gameCanvas.offsetWidth; // force a reflow so the animation plays again
+    this.gameCanvas.classList.add('finesse-flash');
+  }
+
+  /**
+   * Fill a modal section with the per-piece finesse breakdown
+   */
+  private renderFinesseSummary(container: HTMLElement): void {
+    const stats = this.gameController.finesseTracker.getStats();
+    const rows = [`Finesse: ${stats.errors} extra inputs on ${stats.faults}/${stats.pieces} pieces`];
+
+    for (const [type, piece] of Object.entries(stats.byPiece)) {
+      if (piece.pieces > 0) {
+        rows.push(`${type}: ${piece.faults}/${piece.pieces} faults (+${piece.errors})`);
+      }
+    }
+
+    container.replaceChildren(
+      ...rows.map((text) => {
+        const row = document.createElement('p');
+        row.textContent = text;
+        return row;
+      })
+    );
+  }
 }
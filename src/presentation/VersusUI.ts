@@ -0,0 +1,150 @@
+// Versus UI - switches between single player and the two-board versus view
+
+import { GameController } from '@application/GameController';
+import { VersusController } from '@application/VersusController';
+import { GameEvent, GameState, GarbageSendPayload } from '@domain/types';
+import { Renderer } from './Renderer';
+
+interface PlayerView {
+  linesEl: HTMLElement;
+  sentEl: HTMLElement;
+  sent: number;
+}
+
+export class VersusUI {
+  private appEl: HTMLElement;
+  private versusAppEl: HTMLElement;
+  private versusBtn: HTMLButtonElement;
+  private startBtn: HTMLButtonElement;
+  private exitBtn: HTMLButtonElement;
+  private resultModal: HTMLElement;
+  private resultEl: HTMLElement;
+  private rematchBtn: HTMLButtonElement;
+  private views: PlayerView[];
+
+  constructor(
+    private versusController: VersusController,
+    private gameController: GameController
+  ) {
+    this.appEl = this.getElement('app');
+    this.versusAppEl = this.getElement('versus-app');
+    this.versusBtn = this.getElement('versus-btn') as HTMLButtonElement;
+    this.startBtn = this.getElement('versus-start-btn') as HTMLButtonElement;
+    this.exitBtn = this.getElement('versus-exit-btn') as HTMLButtonElement;
+    this.resultModal = this.getElement('versus-modal');
+    this.resultEl = this.getElement('versus-result');
+    this.rematchBtn = this.getElement('versus-rematch-btn') as HTMLButtonElement;
+
+    this.views = versusController.players.map((player, index) => {
+      const n = index + 1;
+      const renderer = new Renderer(
+        this.getElement(`p${n}-game-canvas`) as HTMLCanvasElement,
+        this.getElement(`p${n}-next-canvas`) as HTMLCanvasElement,
+        this.getElement(`p${n}-hold-canvas`) as HTMLCanvasElement,
+        player.getSettings().previewCount
+      );
+      player.setRenderCallback(() => renderer.render(player.store.getState()));
+      renderer.render(player.store.getState());
+
+      return {
+        linesEl: this.getElement(`p${n}-lines`),
+        sentEl: this.getElement(`p${n}-sent`),
+        sent: 0,
+      };
+    });
+
+    this.setupEventListeners();
+    this.subscribeToGameEvents();
+  }
+
+  /**
+   * Get DOM element by ID
+   */
+  private getElement(id: string): HTMLElement {
+    const el = document.getElementById(id);
+    if (!el) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return el;
+  }
+
+  /**
+   * Setup button event listeners
+   */
+  private setupEventListeners(): void {
+    this.versusBtn.addEventListener('click', () => this.show());
+    this.exitBtn.addEventListener('click', () => this.hide());
+    this.startBtn.addEventListener('click', () => this.startMatch());
+    this.rematchBtn.addEventListener('click', () => this.startMatch());
+  }
+
+  /**
+   * Subscribe to both players' games
+   */
+  private subscribeToGameEvents(): void {
+    this.versusController.players.forEach((player, index) => {
+      const view = this.views[index];
+
+      player.store.subscribe((state) => this.updatePlayer(view, state));
+
+      player.eventBus.on<GarbageSendPayload>(GameEvent.GARBAGE_SEND, ({ rows }) => {
+        view.sent += rows;
+        view.sentEl.textContent = view.sent.toString();
+      });
+
+      // The opponent of whoever topped out wins
+      player.eventBus.on(GameEvent.GAME_OVER, () => this.showResult(1 - index));
+    });
+  }
+
+  /**
+   * Switch to the versus view (abandons any single player game or replay)
+   */
+  private show(): void {
+    if (this.gameController.replayPlayer.isActive()) {
+      this.gameController.exitReplay();
+    }
+    this.gameController.stop();
+    this.gameController.gameActions.quit();
+    this.appEl.style.display = 'none';
+    this.versusAppEl.classList.add('show');
+  }
+
+  /**
+   * Leave the versus view and abandon any match in progress
+   */
+  private hide(): void {
+    this.versusController.quit();
+    this.resultModal.classList.remove('show');
+    this.versusAppEl.classList.remove('show');
+    this.appEl.style.display = '';
+  }
+
+  /**
+   * Start a new match
+   */
+  private startMatch(): void {
+    this.resultModal.classList.remove('show');
+    this.views.forEach((view) => {
+      view.sent = 0;
+      view.sentEl.textContent = '0';
+    });
+    this.versusController.start();
+  }
+
+  /**
+   * Update a player's stats (a match can't be restarted while it's running)
+   */
+  private updatePlayer(view: PlayerView, state: GameState): void {
+    view.linesEl.textContent = state.lines.toString();
+    this.startBtn.disabled = this.versusController.isActive();
+  }
+
+  /**
+   * Announce the winner
+   */
+  private showResult(winnerIndex: number): void {
+    this.resultEl.textContent = `Player ${winnerIndex + 1} Wins!`;
+    this.resultModal.classList.add('show');
+  }
+}
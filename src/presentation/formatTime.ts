@@ -0,0 +1,12 @@
+// Time formatting shared by the HUD, result modals and high score tables
+
+/**
+ * Format milliseconds as m:ss.mmm
+ */
+export function formatTime(ms: number): string {
+  const totalMs = Math.floor(ms);
+  const minutes = Math.floor(totalMs / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+}